@@ -40,6 +40,9 @@ export default function RootLayout() {
             animation: 'none', // Optional: disable transition animations
           }}
         />
+        <Stack.Screen name="calibration" />
+        <Stack.Screen name="record-voice" />
+        <Stack.Screen name="sound-library" />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="light" backgroundColor="#FFFFFF" />
@@ -1,32 +1,27 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   StyleSheet,
   Dimensions,
   PanResponder,
   Animated,
+  AppState,
+  AccessibilityInfo,
   BackHandler,
   ActivityIndicator,
   Text,
 } from 'react-native';
 import { router, useFocusEffect } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Audio } from 'expo-av';
 import { activateKeepAwake, deactivateKeepAwake } from 'expo-keep-awake';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import * as NavigationBar from 'expo-navigation-bar';
 import { designTokens } from './styles/designTokens';
-import AnimationManager, {
-  AnimationConfig,
-  AnimationElement,
-} from './utils/AnimationManager';
-
-// Default animation components (fallbacks)
-import BasicShapesAnimation from './animations/basic-shapes/animation';
-
-import SpaceJourneyAnimation from './animations/space-journey/animation';
-
-import BurstingBubblesAnimation from './animations/bursting-bubbles/animation';
+import AnimationManager, { AnimationConfig } from './utils/AnimationManager';
+import AudioManager from './utils/AudioManager';
+import CrySoother from './utils/CrySoother';
+import { getAnimationComponent } from './utils/AnimationRegistry';
+import { getAnimationPalette } from './utils/CalmAnimation';
 
 const { width, height } = Dimensions.get('window');
 
@@ -44,19 +39,31 @@ interface TouchZone {
 const CORNER_SIZE = Math.max(120, Math.min(width, height) * 0.25);
 // Default sequence timeout (overridden by AnimationManager)
 
+// The animation calms over the last minutes of the sleep timer, down to MIN_INTENSITY
+const SETTLE_MINUTES = 5;
+const MIN_INTENSITY = 0.3;
+const INTENSITY_UPDATE_MS = 30 * 1000;
+// Length of the fade out when the session ends
+const FADE_OUT_MS = 2000;
+// Longest wait for the animation to report it has settled before leaving anyway
+const WIND_DOWN_TIMEOUT_MS = 4000;
+
 export default function AnimationScreen() {
   const [unlockSequence, setUnlockSequence] = useState<Corner[]>([]);
   const [currentSequence, setCurrentSequence] = useState<Corner[]>([]);
   const [wrongSequenceIndicator, setWrongSequenceIndicator] = useState(false);
-  const [whiteNoiseEnabled, setWhiteNoiseEnabled] = useState(true);
   const [sleepTimer, setSleepTimer] = useState<number>(30);
   // We no longer need isPlaying state as we're using AudioManager
   const [currentAnimation, setCurrentAnimation] = useState<
     AnimationConfig | undefined
   >();
-  const [animationElements, setAnimationElements] = useState<
-    AnimationElement[]
-  >([]);
+  // What the animation is told about the session (see CalmAnimationProps)
+  const [intensity, setIntensity] = useState(1);
+  const [paused, setPaused] = useState(false);
+  const [reducedMotion, setReducedMotion] = useState(false);
+  const [windingDown, setWindingDown] = useState(false);
+  // The loading indicator stays up until the animation says it is drawn
+  const [animationReady, setAnimationReady] = useState(false);
 
   // We no longer need a sound reference as we're using AudioManager
   // const soundRef = useRef<Audio.Sound | null>(null);
@@ -65,9 +72,13 @@ export default function AnimationScreen() {
   const fadeOutAndExitRef = useRef<() => void>(() => {});
 
   const sequenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const animationValue = useRef(new Animated.Value(0)).current;
-  const rotationValue = useRef(new Animated.Value(0)).current;
-  const scaleValue = useRef(new Animated.Value(1)).current;
+  // Kept apart from the unlock sequence timeout so touches don't cancel the sleep timer
+  const sleepTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // When the sleep timer runs out, as a timestamp, or null while it isn't running
+  const sleepEndRef = useRef<number | null>(null);
+  // Resolves the wait for the animation to settle once it calls onWindDown
+  const windDownResolveRef = useRef<(() => void) | null>(null);
+  const screenOpacity = useRef(new Animated.Value(1)).current;
 
   // Define touch zones for corners - much larger for better mobile experience
   const touchZones: TouchZone[] = [
@@ -95,35 +106,12 @@ export default function AnimationScreen() {
     },
   ];
 
-  // Store animation references so we can stop them when needed
-  const animationRefs = useRef<{
-    rotation: Animated.CompositeAnimation | null;
-    scale: Animated.CompositeAnimation | null;
-    opacity: Animated.CompositeAnimation | null;
-  }>({ rotation: null, scale: null, opacity: null });
-
   useEffect(() => {
     const initializeScreen = async () => {
       try {
         // Keep screen awake
         activateKeepAwake();
 
-        // Enable audio for mobile devices
-        try {
-          await Audio.setAudioModeAsync({
-            allowsRecordingIOS: false,
-            staysActiveInBackground: true,
-            playsInSilentModeIOS: true,
-            shouldDuckAndroid: false,
-            playThroughEarpieceAndroid: false,
-          });
-        } catch (audioError: any) {
-          console.log(
-            'Audio mode setup failed:',
-            audioError?.message || 'Unknown error'
-          );
-        }
-
         // Try to hide system UI (immersive mode) - only on mobile
         try {
           await ScreenOrientation.lockAsync(
@@ -155,16 +143,11 @@ export default function AnimationScreen() {
     const loadSettings = async () => {
       try {
         const savedSequence = await AsyncStorage.getItem('unlockSequence');
-        const savedWhiteNoise = await AsyncStorage.getItem('whiteNoiseEnabled');
         const savedTimer = await AsyncStorage.getItem('sleepTimer');
 
         if (savedSequence) {
           setUnlockSequence(JSON.parse(savedSequence));
         }
-        if (savedWhiteNoise !== null) {
-          const enabled = savedWhiteNoise === 'true';
-          setWhiteNoiseEnabled(enabled);
-        }
         if (savedTimer) {
           const timer = parseInt(savedTimer);
           setSleepTimer(timer);
@@ -177,7 +160,9 @@ export default function AnimationScreen() {
         if (selectedAnimation) {
           console.log('Loaded animation:', selectedAnimation.name);
           setCurrentAnimation(selectedAnimation);
-          setAnimationElements(selectedAnimation.elements || []);
+          if (selectedAnimation.soundscape) {
+            await AudioManager.applyAnimationSoundscape(selectedAnimation.soundscape);
+          }
         } else {
           console.log('No animation selected, using default');
         }
@@ -186,66 +171,23 @@ export default function AnimationScreen() {
       }
     };
 
-    const setupAnimations = async () => {
-      // Opacity animation
-      const opacityAnimation = Animated.loop(
-        Animated.sequence([
-          Animated.timing(animationValue, {
-            toValue: 1,
-            duration: 2000,
-            useNativeDriver: true,
-          }),
-          Animated.timing(animationValue, {
-            toValue: 0.8,
-            duration: 2000,
-            useNativeDriver: true,
-          }),
-        ])
-      );
-      opacityAnimation.start();
-      animationRefs.current.opacity = opacityAnimation;
-
-      // Rotation animation
-      const rotationAnimation = Animated.loop(
-        Animated.timing(rotationValue, {
-          toValue: 1,
-          duration: 8000,
-          useNativeDriver: true,
-        })
-      );
-      rotationAnimation.start();
-      animationRefs.current.rotation = rotationAnimation;
-
-      // Scale animation
-      const scaleAnimation = Animated.loop(
-        Animated.sequence([
-          Animated.timing(scaleValue, {
-            toValue: 1.2,
-            duration: 3000,
-            useNativeDriver: true,
-          }),
-          Animated.timing(scaleValue, {
-            toValue: 0.8,
-            duration: 3000,
-            useNativeDriver: true,
-          }),
-        ])
-      );
-      scaleAnimation.start();
-      animationRefs.current.scale = scaleAnimation;
-    };
-
-    // Fade out animation and exit to main menu
+    // Let the animation wind down while the screen fades out, then exit to main menu
     const fadeOutAndExit = async () => {
       try {
-        // Fade out animation
-        Animated.timing(animationValue, {
-          toValue: 0,
-          duration: 2000,
-          useNativeDriver: true,
-        }).start(() => {
-          router.replace('/main-menu');
+        setWindingDown(true);
+        const settled = new Promise<void>((resolve) => {
+          windDownResolveRef.current = resolve;
+          setTimeout(resolve, WIND_DOWN_TIMEOUT_MS);
+        });
+        const faded = new Promise<void>((resolve) => {
+          Animated.timing(screenOpacity, {
+            toValue: 0,
+            duration: FADE_OUT_MS,
+            useNativeDriver: true,
+          }).start(() => resolve());
         });
+        await Promise.all([settled, faded]);
+        router.replace('/main-menu');
       } catch (error) {
         console.error('Fade out error:', error);
         router.replace('/main-menu');
@@ -255,7 +197,8 @@ export default function AnimationScreen() {
     // Store the function in ref so it can be accessed outside useEffect
     fadeOutAndExitRef.current = fadeOutAndExit;
 
-    // Start sleep timer to automatically return to main menu after specified minutes
+    // Start sleep timer to automatically return to main menu after specified minutes.
+    // AudioManager ends the sound on its own schedule, which can outlast this screen.
     const startSleepTimer = (minutes: number) => {
       if (minutes > 0) {
         console.log(`Sleep timer started: ${minutes} minutes`);
@@ -266,7 +209,9 @@ export default function AnimationScreen() {
         }, minutes * 60 * 1000);
 
         // Store the timer reference for cleanup
-        sequenceTimeoutRef.current = timerRef;
+        sleepTimerRef.current = timerRef;
+        sleepEndRef.current = Date.now() + minutes * 60 * 1000;
+        AudioManager.startSleepTimer(minutes);
       }
     };
 
@@ -274,23 +219,20 @@ export default function AnimationScreen() {
       try {
         deactivateKeepAwake();
 
-        // Stop all animations
-        if (animationRefs.current.rotation) {
-          animationRefs.current.rotation.stop();
-        }
-        if (animationRefs.current.scale) {
-          animationRefs.current.scale.stop();
-        }
-        if (animationRefs.current.opacity) {
-          animationRefs.current.opacity.stop();
-        }
+        // Stop listening for crying and undo anything it changed
+        CrySoother.stop();
 
         // IMPORTANT: Do NOT stop white noise when exiting the animation
         // White noise should continue playing if it was enabled in the main menu
         // AudioManager will handle the state based on the toggle in main menu
         // Clear any existing sleep timer
-        if (sequenceTimeoutRef.current) {
+        if (sleepTimerRef.current) {
           console.log('Clearing existing sleep timer');
+          clearTimeout(sleepTimerRef.current);
+          sleepTimerRef.current = null;
+        }
+        sleepEndRef.current = null;
+        if (sequenceTimeoutRef.current) {
           clearTimeout(sequenceTimeoutRef.current);
           sequenceTimeoutRef.current = null;
         }
@@ -307,37 +249,34 @@ export default function AnimationScreen() {
     const init = async () => {
       await initializeScreen();
       await loadSettings();
-      setupAnimations();
 
-      // We should NOT use the local whiteNoiseEnabled state variable at all
-      // Instead, directly check the saved value from AsyncStorage
-      const savedWhiteNoise = await AsyncStorage.getItem('whiteNoiseEnabled');
-      const shouldPlayWhiteNoise = savedWhiteNoise === 'true';
+      // The effect runs again once the saved timer has loaded, and that run
+      // starts the timer with it rather than this run's default
+      if (!isMounted) return;
 
-      // Get the AudioManager instance
-      const audioManager = await import('./utils/AudioManager').then(
-        (m) => m.default
-      );
-
-      // Ensure white noise state matches the saved toggle state
-      if (shouldPlayWhiteNoise && !audioManager.isWhiteNoisePlaying()) {
-        // Toggle is ON but white noise is not playing - start it
-        console.log('Starting white noise based on saved toggle state');
-        audioManager.play();
-      } else if (!shouldPlayWhiteNoise && audioManager.isWhiteNoisePlaying()) {
-        // Toggle is OFF but white noise is playing - stop it
-        console.log('Stopping white noise based on saved toggle state');
-        audioManager.stop();
-      } else {
-        console.log('White noise state already matches saved toggle state');
-      }
-
-      // Start sleep timer if enabled and not already started
-      if (sleepTimer > 0 && !sequenceTimeoutRef.current) {
+      // Start sleep timer if enabled and not already started. This starts a
+      // new night, so sound a previous timer ended may play again.
+      if (sleepTimer > 0 && !sleepTimerRef.current) {
         startSleepTimer(sleepTimer);
       }
+
+      // AudioManager owns the sound setting; just make playback match it
+      await AudioManager.syncPlayback();
+
+      // Listen for crying if the parent has turned that on
+      if (!isMounted) return;
+      CrySoother.start({
+        restartSleepTimer: () => {
+          if (sleepTimerRef.current) {
+            clearTimeout(sleepTimerRef.current);
+            sleepTimerRef.current = null;
+          }
+          startSleepTimer(sleepTimer);
+        },
+      });
     };
 
+    let isMounted = true;
     init();
 
     // Handle Android back button
@@ -350,17 +289,67 @@ export default function AnimationScreen() {
     );
 
     return () => {
+      isMounted = false;
       cleanup();
       backHandler.remove();
     };
   }, [
-    animationValue,
-    rotationValue,
-    scaleValue,
+    screenOpacity,
     sleepTimer,
-    whiteNoiseEnabled,
   ]); // Include all dependencies used in the effect
 
+  // The animation's sound only lasts while it is on screen
+  useEffect(() => {
+    return () => {
+      AudioManager.restoreParentSoundscape();
+    };
+  }, []);
+
+  // Calm the animation as the sleep timer runs out
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (sleepEndRef.current === null) {
+        setIntensity(1);
+        return;
+      }
+      const remaining = (sleepEndRef.current - Date.now()) / (SETTLE_MINUTES * 60 * 1000);
+      setIntensity(MIN_INTENSITY + (1 - MIN_INTENSITY) * Math.max(0, Math.min(1, remaining)));
+    }, INTENSITY_UPDATE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Pause the animation while the app is in the background, and follow the
+  // phone's reduce motion setting
+  useEffect(() => {
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      setPaused(state !== 'active');
+    });
+    AccessibilityInfo.isReduceMotionEnabled().then(setReducedMotion);
+    const reduceMotionSubscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      setReducedMotion
+    );
+    return () => {
+      appStateSubscription.remove();
+      reduceMotionSubscription.remove();
+    };
+  }, []);
+
+  const palette = useMemo(
+    () => currentAnimation && getAnimationPalette(currentAnimation),
+    [currentAnimation]
+  );
+
+  // What the animation reports back about itself. Nothing here waits on it
+  // pausing or resuming, as `paused` only changes while the app is hidden.
+  const handleReady = useCallback(() => {
+    setAnimationReady(true);
+  }, []);
+  const handlePauseOrResume = useCallback(() => {}, []);
+  const handleWindDown = useCallback(() => {
+    windDownResolveRef.current?.();
+  }, []);
+
   // Additional protection against iOS back swipe gesture
   useFocusEffect(
     React.useCallback(() => {
@@ -460,7 +449,9 @@ export default function AnimationScreen() {
       );
 
       if (isCorrect) {
-        // Correct sequence - unlock and stop everything
+        // Correct sequence - unlock and stop everything.
+        // The parent is back in charge of the sound, so it no longer ends on a timer.
+        AudioManager.cancelSleepTimer();
         fadeOutAndExitRef.current();
         return;
       } else {
@@ -533,7 +524,7 @@ export default function AnimationScreen() {
 
   const renderAnimationElements = () => {
     // If no animation is selected or loaded, show a loading indicator
-    if (!currentAnimation) {
+    if (!currentAnimation || !palette) {
       return (
         <View style={styles.animationContainer}>
           <ActivityIndicator size="large" color={designTokens.colors.primary} />
@@ -541,41 +532,18 @@ export default function AnimationScreen() {
       );
     }
 
-    // Determine which animation component to use based on the selected animation
-    let AnimationComponent: React.ComponentType<any>;
-
-    // Use the animation ID to select the appropriate component
-    switch (currentAnimation.id) {
-      case 'basic-shapes':
-        AnimationComponent = BasicShapesAnimation;
-        break;
-      case 'space-journey':
-        AnimationComponent = SpaceJourneyAnimation;
-        break;
-
-      case 'bursting-bubbles':
-        AnimationComponent = BurstingBubblesAnimation;
-        break;
-      default:
-        console.log('No matching animation found for ID:', currentAnimation.id);
-        AnimationComponent = BasicShapesAnimation;
-    }
-    // Debug the component
-    console.log('AnimationComponent type:', typeof AnimationComponent);
-    console.log(
-      'AnimationComponent is undefined:',
-      AnimationComponent === undefined
-    );
+    // Look up the component registered for the selected animation
+    const AnimationComponent = getAnimationComponent(currentAnimation.id);
 
-    // Check if AnimationComponent is valid before rendering
+    // An unknown ID is a mistake in the animation folders, so say so rather than
+    // quietly showing a different animation
     if (!AnimationComponent) {
-      console.error('AnimationComponent is undefined or null');
+      console.error('No animation component registered for ID:', currentAnimation.id);
       return (
         <View style={styles.animationContainer}>
-          <ActivityIndicator size="large" color={designTokens.colors.primary} />
           <View style={{ marginTop: 20 }}>
             <Text style={{ textAlign: 'center', color: 'red' }}>
-              Error loading animation
+              Animation &quot;{currentAnimation.id}&quot; could not be found
             </Text>
           </View>
         </View>
@@ -585,21 +553,28 @@ export default function AnimationScreen() {
     try {
       // Render the selected animation component with all necessary props
       return (
-        <AnimationComponent
-          // Props for basic-shapes
-          animationValue={animationValue}
-          rotationValue={rotationValue}
-          scaleValue={scaleValue}
-          elements={animationElements}
-          styles={styles}
-          // Props for bursting-bubbles and space-journey
-          width={width}
-          height={height}
-          onBackgroundTap={handleTouch}
-          onAnimationLoaded={() =>
-            console.log(`${currentAnimation.id} animation loaded`)
-          }
-        />
+        <Animated.View style={[styles.animationLayer, { opacity: screenOpacity }]}>
+          <AnimationComponent
+            width={width}
+            height={height}
+            intensity={intensity}
+            palette={palette}
+            paused={paused}
+            reducedMotion={reducedMotion}
+            windingDown={windingDown}
+            config={currentAnimation}
+            onReady={handleReady}
+            onPause={handlePauseOrResume}
+            onResume={handlePauseOrResume}
+            onWindDown={handleWindDown}
+            onBackgroundTap={handleTouch}
+          />
+          {!animationReady && (
+            <View style={styles.loadingOverlay} pointerEvents="none">
+              <ActivityIndicator size="large" color={designTokens.colors.primary} />
+            </View>
+          )}
+        </Animated.View>
       );
     } catch (error) {
       console.error('Error rendering animation component:', error);
@@ -676,14 +651,13 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     position: 'relative',
   },
-  circle: {
-    borderRadius: designTokens.borderRadius.full,
-  },
-  square: {
-    backgroundColor: designTokens.colors.darkGray,
+  animationLayer: {
+    flex: 1,
   },
-  triangle: {
-    // Triangle styles are applied inline since they're more complex
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
   },
   wrongSequenceIndicator: {
     position: 'absolute',
@@ -1,5 +1,5 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Animated, View, Dimensions, Vibration, Platform } from 'react-native';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Animated, View, Vibration, Platform, StyleSheet } from 'react-native';
 import { Gyroscope, Accelerometer } from 'expo-sensors';
 import {
   PanGestureHandler,
@@ -7,21 +7,10 @@ import {
   TapGestureHandler,
 } from 'react-native-gesture-handler';
 import { LinearGradient } from 'expo-linear-gradient';
-import { AnimationElement } from '../../utils/AnimationManager';
-
-const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
-
-interface AnimationProps {
-  animationValue: Animated.Value;
-  rotationValue: Animated.Value;
-  scaleValue: Animated.Value;
-  elements: AnimationElement[];
-  styles: any;
-  // Additional props that might be passed from animation.tsx
-  width?: number;
-  height?: number;
-  onAnimationLoaded?: () => void;
-}
+import AudioManager from '../../utils/AudioManager';
+import { CalmAnimationProps, useCalmLifecycle } from '../../utils/CalmAnimation';
+import { designTokens } from '../../styles/designTokens';
+import { PENTATONIC_NOTES } from '../../utils/ToneSynthesizer';
 
 interface GyroData {
   x: number;
@@ -68,7 +57,7 @@ interface ShapeState {
   hasTrail: boolean;
 }
 
-// Enhanced color palettes for shapes
+// Background gradients, cycled through
 const COLOR_PALETTES = [
   ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7'],
   ['#FD79A8', '#FDCB6E', '#6C5CE7', '#A29BFE', '#74B9FF'],
@@ -76,17 +65,13 @@ const COLOR_PALETTES = [
   ['#00B894', '#00CEC9', '#0984E3', '#6C5CE7', '#A29BFE'],
 ];
 
-// Musical notes for sound feedback
-const MUSICAL_NOTES = [
-  261.63, // C4
-  293.66, // D4
-  329.63, // E4
-  349.23, // F4
-  392.00, // G4
-  440.00, // A4
-  493.88, // B4
-  523.25, // C5
-];
+// Bumps slower than this (pixels per frame) are silent, so resting shapes don't keep chiming
+const MIN_IMPACT_SPEED = 2;
+// Bumps at this speed or faster play a note at full strength
+const FULL_IMPACT_SPEED = 15;
+
+const impactStrength = (speed: number) =>
+  speed < MIN_IMPACT_SPEED ? 0 : Math.min(1, speed / FULL_IMPACT_SPEED);
 
 /**
  * Enhanced Basic Shapes Animation with Physics and Particles
@@ -97,17 +82,33 @@ const MUSICAL_NOTES = [
  * - Multi-touch gestures (tap, double-tap, long-press, pinch)
  * - Sound feedback and haptics
  * - Dynamic color transitions
+ *
+ * Shapes take their colours from the palette's accents and move more slowly
+ * as the intensity falls. With reduced motion they don't spin or swell.
  */
 export default function BasicShapesAnimation({
-  animationValue,
-  rotationValue,
-  scaleValue,
-  elements,
-  styles,
   width,
   height,
-  onAnimationLoaded,
-}: AnimationProps) {
+  intensity,
+  palette,
+  paused,
+  reducedMotion,
+  windingDown,
+  config,
+  onReady,
+  onPause,
+  onResume,
+  onWindDown,
+}: CalmAnimationProps) {
+  const elements = useMemo(() => config.elements ?? [], [config.elements]);
+  const moving = useCalmLifecycle({ paused, windingDown, onPause, onResume, onWindDown });
+  const accent = useCallback(
+    (index: number) => palette.accents[index % palette.accents.length],
+    [palette.accents]
+  );
+  const animationValue = useRef(new Animated.Value(0)).current;
+  const rotationValue = useRef(new Animated.Value(0)).current;
+  const scaleValue = useRef(new Animated.Value(1)).current;
   const [gyroData, setGyroData] = useState<GyroData>({ x: 0, y: 0, z: 0 });
   const [isGyroAvailable, setIsGyroAvailable] = useState(false);
   const [shapePositions, setShapePositions] = useState<ShapePosition[]>([]);
@@ -126,8 +127,8 @@ export default function BasicShapesAnimation({
   // Initialize shape positions, physics, and states
   useEffect(() => {
     const initialPositions = elements.map((element, index) => ({
-      x: (element.properties.position?.x || 0.5) * screenWidth,
-      y: (element.properties.position?.y || 0.5) * screenHeight,
+      x: (element.properties.position?.x ?? 0.5) * width,
+      y: (element.properties.position?.y ?? 0.5) * height,
     }));
     
     const initialDragStates = elements.map(() => ({
@@ -157,7 +158,7 @@ export default function BasicShapesAnimation({
     setShapeStates(initialStates);
     
     console.log('🎯 Initialized enhanced shapes with physics');
-  }, [elements]);
+  }, [elements, width, height]);
 
   // Create particle explosion effect
   const createParticleExplosion = useCallback((x: number, y: number, color: string) => {
@@ -189,18 +190,44 @@ export default function BasicShapesAnimation({
     }
   }, []);
 
-  // Play sound effect
-  const playSound = useCallback(async (frequency: number) => {
-    try {
-      // Simple haptic feedback as audio placeholder
-      Vibration.vibrate(10);
-    } catch (error) {
-      console.error('Error playing sound:', error);
+  // Play a soft note, if the parent has interaction sounds on
+  const playSound = useCallback((frequency: number, strength: number = 1) => {
+    if (strength > 0) {
+      AudioManager.playTone(frequency, strength);
     }
   }, []);
 
+  // Breathing, spinning and swelling for the shapes whose animation.json asks for it
+  useEffect(() => {
+    if (!moving) return;
+    const loops = [
+      Animated.loop(
+        Animated.sequence([
+          Animated.timing(animationValue, { toValue: 1, duration: 2000, useNativeDriver: true }),
+          Animated.timing(animationValue, { toValue: 0.8, duration: 2000, useNativeDriver: true }),
+        ])
+      ),
+    ];
+    if (!reducedMotion) {
+      loops.push(
+        Animated.loop(
+          Animated.timing(rotationValue, { toValue: 1, duration: 8000, useNativeDriver: true })
+        ),
+        Animated.loop(
+          Animated.sequence([
+            Animated.timing(scaleValue, { toValue: 1.2, duration: 3000, useNativeDriver: true }),
+            Animated.timing(scaleValue, { toValue: 0.8, duration: 3000, useNativeDriver: true }),
+          ])
+        )
+      );
+    }
+    loops.forEach((loop) => loop.start());
+    return () => loops.forEach((loop) => loop.stop());
+  }, [animationValue, rotationValue, scaleValue, moving, reducedMotion]);
+
   // Update particles
   useEffect(() => {
+    if (!moving) return;
     const updateParticles = () => {
       setParticles(prev => prev
         .map(particle => ({
@@ -218,10 +245,13 @@ export default function BasicShapesAnimation({
     
     const particleTimer = setInterval(updateParticles, 16); // 60 FPS
     return () => clearInterval(particleTimer);
-  }, []);
+  }, [moving]);
 
   // Physics simulation loop
   useEffect(() => {
+    if (!moving) return;
+    // Shapes drift more slowly as the intensity falls
+    const pace = 0.4 + 0.6 * intensity;
     const runPhysics = () => {
       setShapePositions(prev => {
         // Create completely new arrays to avoid mutations
@@ -233,8 +263,8 @@ export default function BasicShapesAnimation({
           if (dragStates[i]?.isDragging) continue;
           
           // Apply velocity (create new position object)
-          const newX = newPositions[i].x + physics[i].velocityX;
-          const newY = newPositions[i].y + physics[i].velocityY;
+          const newX = newPositions[i].x + physics[i].velocityX * pace;
+          const newY = newPositions[i].y + physics[i].velocityY * pace;
           
           // Apply gravity
           physics[i] = {
@@ -243,26 +273,31 @@ export default function BasicShapesAnimation({
           };
           
           // Bounce off walls
-          if (newX <= 50 || newX >= screenWidth - 50) {
+          if (newX <= 50 || newX >= width - 50) {
+            const impactSpeed = Math.abs(physics[i].velocityX);
             physics[i] = {
               ...physics[i],
               velocityX: physics[i].velocityX * -0.7
             };
             newPositions[i] = {
-              x: Math.max(50, Math.min(screenWidth - 50, newX)),
+              x: Math.max(50, Math.min(width - 50, newX)),
               y: newY
             };
-            playSound(MUSICAL_NOTES[i % MUSICAL_NOTES.length]);
-          } else if (newY <= 50 || newY >= screenHeight - 100) {
+            playSound(PENTATONIC_NOTES[i % PENTATONIC_NOTES.length], impactStrength(impactSpeed));
+          } else if (newY <= 50 || newY >= height - 100) {
+            const impactSpeed = Math.abs(physics[i].velocityY);
             physics[i] = {
               ...physics[i],
               velocityY: physics[i].velocityY * -0.7
             };
             newPositions[i] = {
               x: newX,
-              y: Math.max(50, Math.min(screenHeight - 100, newY))
+              y: Math.max(50, Math.min(height - 100, newY))
             };
-            playSound(MUSICAL_NOTES[(i + 2) % MUSICAL_NOTES.length]);
+            playSound(
+              PENTATONIC_NOTES[(i + 2) % PENTATONIC_NOTES.length],
+              impactStrength(impactSpeed)
+            );
           } else {
             newPositions[i] = { x: newX, y: newY };
           }
@@ -300,6 +335,11 @@ export default function BasicShapesAnimation({
                 y: newPositions[j].y - separationY
               };
               
+              const impactSpeed = Math.hypot(
+                physics[i].velocityX - physics[j].velocityX,
+                physics[i].velocityY - physics[j].velocityY
+              );
+
               // Exchange velocities (elastic collision) - create new physics objects
               const tempVx = physics[i].velocityX;
               const tempVy = physics[i].velocityY;
@@ -317,8 +357,11 @@ export default function BasicShapesAnimation({
               // Create particle effect at collision point
               const collisionX = (newPositions[i].x + newPositions[j].x) / 2;
               const collisionY = (newPositions[i].y + newPositions[j].y) / 2;
-              const colors = COLOR_PALETTES[i % COLOR_PALETTES.length];
-              createParticleExplosion(collisionX, collisionY, colors[2]);
+              createParticleExplosion(collisionX, collisionY, accent(i + 2));
+              playSound(
+                PENTATONIC_NOTES[(i + j) % PENTATONIC_NOTES.length],
+                impactStrength(impactSpeed)
+              );
             }
           }
         }
@@ -335,7 +378,17 @@ export default function BasicShapesAnimation({
         clearInterval(physicsTimer.current);
       }
     };
-  }, [dragStates, shapePhysics, playSound, createParticleExplosion]);
+  }, [
+    dragStates,
+    shapePhysics,
+    playSound,
+    createParticleExplosion,
+    moving,
+    intensity,
+    width,
+    height,
+    accent,
+  ]);
 
   // Setup gyroscope and accelerometer
   useEffect(() => {
@@ -383,8 +436,8 @@ export default function BasicShapesAnimation({
                 lastShakeTime = now;
                 // Shuffle shapes on shake
                 setShapePositions(prev => prev.map(() => ({
-                  x: Math.random() * (screenWidth - 100) + 50,
-                  y: Math.random() * (screenHeight - 200) + 50,
+                  x: Math.random() * (width - 100) + 50,
+                  y: Math.random() * (height - 200) + 50,
                 })));
                 
                 setShapePhysics(prev => prev.map(() => ({
@@ -415,16 +468,17 @@ export default function BasicShapesAnimation({
         accelSubscription.current.remove();
       }
     };
-  }, []);
+  }, [width, height]);
 
   // Cycle background gradient
   useEffect(() => {
+    if (!moving) return;
     const timer = setInterval(() => {
       setBackgroundGradient(prev => (prev + 1) % COLOR_PALETTES.length);
     }, 5000);
     
     return () => clearInterval(timer);
-  }, []);
+  }, [moving]);
 
   // Handle tap gesture for shape interaction
   const handleTap = (shapeIndex: number) => (event: any) => {
@@ -432,7 +486,7 @@ export default function BasicShapesAnimation({
       console.log('👆 Shape tapped:', shapeIndex);
       
       // Play sound
-      playSound(MUSICAL_NOTES[shapeIndex % MUSICAL_NOTES.length]);
+      playSound(PENTATONIC_NOTES[shapeIndex % PENTATONIC_NOTES.length]);
       
       // Toggle glow effect and change color
       setShapeStates(prev => {
@@ -440,7 +494,7 @@ export default function BasicShapesAnimation({
         newStates[shapeIndex] = {
           ...newStates[shapeIndex],
           glowing: !newStates[shapeIndex].glowing,
-          colorIndex: (newStates[shapeIndex].colorIndex + 1) % COLOR_PALETTES[0].length,
+          colorIndex: (newStates[shapeIndex].colorIndex + 1) % palette.accents.length,
           scale: 1.2,
         };
         return newStates;
@@ -460,8 +514,11 @@ export default function BasicShapesAnimation({
       
       // Create particle burst
       const pos = shapePositions[shapeIndex];
-      const colors = COLOR_PALETTES[shapeIndex % COLOR_PALETTES.length];
-      createParticleExplosion(pos.x, pos.y, colors[shapeStates[shapeIndex]?.colorIndex || 0]);
+      createParticleExplosion(
+        pos.x,
+        pos.y,
+        accent(shapeIndex + (shapeStates[shapeIndex]?.colorIndex || 0))
+      );
       
       Vibration.vibrate(10);
     }
@@ -489,8 +546,8 @@ export default function BasicShapesAnimation({
         // Update position while dragging (immutably)
         setShapePositions(prev => prev.map((pos, index) => {
           if (index === shapeIndex) {
-            const newX = Math.max(25, Math.min(screenWidth - 25, pos.x + translationX));
-            const newY = Math.max(25, Math.min(screenHeight - 25, pos.y + translationY));
+            const newX = Math.max(25, Math.min(width - 25, pos.x + translationX));
+            const newY = Math.max(25, Math.min(height - 25, pos.y + translationY));
             return { x: newX, y: newY }; // Always return new object
           }
           return { ...pos }; // Return copy even for unchanged positions
@@ -530,7 +587,7 @@ export default function BasicShapesAnimation({
         });
         
         // Play drop sound
-        playSound(MUSICAL_NOTES[(shapeIndex + 4) % MUSICAL_NOTES.length]);
+        playSound(PENTATONIC_NOTES[(shapeIndex + 4) % PENTATONIC_NOTES.length]);
         
         // Re-enable gyro movement after a delay
         setTimeout(() => {
@@ -568,22 +625,21 @@ export default function BasicShapesAnimation({
       const moveY = -gyroData.x * sensitivity * 0.1;
 
       // Calculate new positions with bounds checking
-      const newX = Math.max(50, Math.min(screenWidth - 50, currentPos.x + moveX));
-      const newY = Math.max(50, Math.min(screenHeight - 50, currentPos.y + moveY));
+      const newX = Math.max(50, Math.min(width - 50, currentPos.x + moveX));
+      const newY = Math.max(50, Math.min(height - 50, currentPos.y + moveY));
 
       // Always return a new object
       return { x: newX, y: newY };
     });
 
     setShapePositions(newPositions);
-  }, [gyroData, isGyroAvailable, elements, dragStates, shapePositions]);
+  }, [gyroData, isGyroAvailable, elements, dragStates, shapePositions, width, height]);
 
-  // Notify parent when animation is loaded
+  // Notify parent when animation is ready, once
+  const readyRef = useRef(onReady);
   useEffect(() => {
-    if (onAnimationLoaded) {
-      onAnimationLoaded();
-    }
-  }, [onAnimationLoaded]);
+    readyRef.current();
+  }, []);
   const rotation = rotationValue.interpolate({
     inputRange: [0, 1],
     outputRange: ['0deg', '360deg'],
@@ -630,10 +686,10 @@ export default function BasicShapesAnimation({
         if (!shapePosition) return null;
 
         const transforms = [];
-        if (animations.rotate) {
+        if (animations.rotate && !reducedMotion) {
           transforms.push({ rotate: rotation });
         }
-        if (animations.scale) {
+        if (animations.scale && !reducedMotion) {
           transforms.push({ scale: scaleValue });
         }
 
@@ -643,8 +699,7 @@ export default function BasicShapesAnimation({
         const dragState = dragStates[index];
         
         // Dynamic color from palette
-        const colorPalette = COLOR_PALETTES[index % COLOR_PALETTES.length];
-        const color = colorPalette[shapeState?.colorIndex || 0];
+        const color = accent(index + (shapeState?.colorIndex || 0));
         
         // Calculate actual size with scale
         const actualSize = size * (shapeState?.scale || 1);
@@ -780,3 +835,21 @@ export default function BasicShapesAnimation({
     </View>
   );
 }
+
+const styles = StyleSheet.create({
+  animationContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    position: 'relative',
+  },
+  circle: {
+    borderRadius: designTokens.borderRadius.full,
+  },
+  square: {
+    backgroundColor: designTokens.colors.darkGray,
+  },
+  triangle: {
+    // Triangle styles are applied inline since they're more complex
+  },
+});
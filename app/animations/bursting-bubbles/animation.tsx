@@ -1,14 +1,7 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { View, StyleSheet, Dimensions, Animated, Easing, TouchableWithoutFeedback } from 'react-native';
-import type { AnimationElement } from '../../utils/AnimationManager';
-
-interface AnimationProps {
-  width?: number;
-  height?: number;
-  elements?: AnimationElement[];
-  onAnimationLoaded?: () => void;
-  onBackgroundTap?: (x: number, y: number) => void;
-}
+import { View, StyleSheet, Animated, Easing, TouchableWithoutFeedback } from 'react-native';
+import { useAudioReactiveValues } from '../../utils/AudioManager';
+import { CalmAnimationProps, useCalmLifecycle } from '../../utils/CalmAnimation';
 
 // Animation constants
 const INITIAL_BUBBLE_COUNT = 15;
@@ -44,13 +37,22 @@ interface Dot {
   scale: Animated.Value;
 }
 
-const SpaceBubblesAnimation = React.memo(({ 
-  width: propWidth = Dimensions.get('window').width, 
-  height: propHeight = Dimensions.get('window').height,
-  elements = [],
-  onAnimationLoaded,
+// Bubbles float up more slowly as the intensity falls, and stop swelling with
+// the sound when the phone is set to reduce motion
+const SpaceBubblesAnimation = React.memo(({
+  width: propWidth,
+  height: propHeight,
+  intensity,
+  palette,
+  paused,
+  reducedMotion,
+  windingDown,
+  onReady,
+  onPause,
+  onResume,
+  onWindDown,
   onBackgroundTap
-}: AnimationProps) => {
+}: CalmAnimationProps) => {
   // Container dimensions & absolute position (updated via onLayout)
   const [containerDims, setContainerDims] = useState({ width: propWidth, height: propHeight });
   const containerOffset = useRef({ x: 0, y: 0 });
@@ -60,14 +62,21 @@ const SpaceBubblesAnimation = React.memo(({
   const [dots, setDots] = useState<Dot[]>([]);
   
   // Use refs to avoid dependency issues
-  const animationLoadedRef = useRef(onAnimationLoaded);
-  const hasNotifiedLoaded = useRef(false);
+  const readyRef = useRef(onReady);
+  const hasNotifiedReady = useRef(false);
   const animationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const moving = useCalmLifecycle({ paused, windingDown, onPause, onResume, onWindDown });
+
+  // Bubbles swell gently with the heartbeat or the shush rhythm
+  const { pulse } = useAudioReactiveValues();
+  const pulseScale = reducedMotion
+    ? 1
+    : pulse.interpolate({ inputRange: [0, 1], outputRange: [1, 1.06] });
   
   // Update ref when prop changes
   useEffect(() => {
-    animationLoadedRef.current = onAnimationLoaded;
-  }, [onAnimationLoaded]);
+    readyRef.current = onReady;
+  }, [onReady]);
   
   // Generate a unique ID
   const generateId = useCallback(() => {
@@ -88,10 +97,10 @@ const SpaceBubblesAnimation = React.memo(({
       size: bubbleSize,
       opacity: new Animated.Value(0.7 + Math.random() * 0.3),
       scale: new Animated.Value(0.8 + Math.random() * 0.4),
-      color: 'white',
+      color: palette.foreground,
       highlight: Math.random() > 0.5
     };
-  }, [containerDims, generateId]);
+  }, [containerDims, generateId, palette.foreground]);
   
   // Get current position of an animated value
   // Helper to synchronously read the current numeric value of an Animated.Value
@@ -281,6 +290,7 @@ const SpaceBubblesAnimation = React.memo(({
   
   // Animation function for bubbles - smoother floating motion
   const animateBubbles = useCallback(() => {
+    const speed = BUBBLE_SPEED * (0.4 + 0.6 * intensity);
     bubbles.forEach(bubble => {
       // Get current position
       const currentX = getAnimatedValue(bubble.x);
@@ -292,8 +302,8 @@ const SpaceBubblesAnimation = React.memo(({
       const uniqueOffset = parseInt(bubble.id.substring(0, 2), 36) / 36; // Use ID for unique wave pattern
       const sineOffset = Math.sin((time + uniqueOffset) * 2) * 1.5;
       
-      const newX = currentX + sineOffset + (Math.random() * 2 - 1) * BUBBLE_SPEED * 2;
-      const newY = currentY - BUBBLE_SPEED * (2 + Math.random()); // Varying upward speed
+      const newX = currentX + sineOffset + (Math.random() * 2 - 1) * speed * 2;
+      const newY = currentY - speed * (2 + Math.random()); // Varying upward speed
       
       // Wrap around if bubble goes off screen
       const { width, height } = containerDims;
@@ -318,7 +328,7 @@ const SpaceBubblesAnimation = React.memo(({
       
       // Only start new opacity/scale animations if not already animating
       // This prevents too many animations from stacking up
-      if (Math.random() < 0.05) { // Occasionally update the pulsing
+      if (!reducedMotion && Math.random() < 0.05) { // Occasionally update the pulsing
         // Animate opacity and scale for a pulsing effect
         Animated.sequence([
           Animated.timing(bubble.opacity, {
@@ -347,7 +357,7 @@ const SpaceBubblesAnimation = React.memo(({
         ]).start();
       }
     });
-  }, [bubbles, containerDims, getAnimatedValue]);
+  }, [bubbles, containerDims, getAnimatedValue, intensity, reducedMotion]);
 
   // Initialize animation
   useEffect(() => {
@@ -360,10 +370,10 @@ const SpaceBubblesAnimation = React.memo(({
     
     setBubbles(initialBubbles);
     
-    // Notify that animation is loaded (only once)
-    if (!hasNotifiedLoaded.current && animationLoadedRef.current) {
-      animationLoadedRef.current();
-      hasNotifiedLoaded.current = true;
+    // Notify that animation is ready (only once)
+    if (!hasNotifiedReady.current) {
+      readyRef.current();
+      hasNotifiedReady.current = true;
     }
     
     return () => {
@@ -376,6 +386,9 @@ const SpaceBubblesAnimation = React.memo(({
   
   // Set up animation interval separately to avoid dependency issues
   useEffect(() => {
+    // Bubbles hold still while paused or winding down
+    if (!moving) return;
+
     // Use a shorter interval for smoother animation
     animationIntervalRef.current = setInterval(animateBubbles, BUBBLE_FLOAT_INTERVAL);
     
@@ -385,12 +398,19 @@ const SpaceBubblesAnimation = React.memo(({
         animationIntervalRef.current = null;
       }
     };
-  }, [animateBubbles]);
+  }, [animateBubbles, moving]);
   
   return (
     <TouchableWithoutFeedback onPress={handleTouch}>
       <View
-        style={[styles.container, { width: containerDims.width, height: containerDims.height }]}
+        style={[
+          styles.container,
+          {
+            width: containerDims.width,
+            height: containerDims.height,
+            backgroundColor: palette.background
+          }
+        ]}
         onLayout={event => {
           const { width: w, height: h } = event.nativeEvent.layout;
           setContainerDims({ width: w, height: h });
@@ -409,7 +429,7 @@ const SpaceBubblesAnimation = React.memo(({
                 transform: [
                   { translateX: Animated.subtract(bubble.x, bubble.size / 2) },
                   { translateY: Animated.subtract(bubble.y, bubble.size / 2) },
-                  { scale: bubble.scale }
+                  { scale: Animated.multiply(bubble.scale, pulseScale) }
                 ],
                 opacity: bubble.opacity
               }
@@ -440,6 +460,7 @@ const SpaceBubblesAnimation = React.memo(({
                 width: dot.size,
                 height: dot.size,
                 borderRadius: dot.size / 2,
+                backgroundColor: palette.foreground,
                 transform: [
                   { translateX: Animated.subtract(dot.x, dot.size / 2) },
                   { translateY: Animated.subtract(dot.y, dot.size / 2) },
@@ -458,7 +479,6 @@ const SpaceBubblesAnimation = React.memo(({
 const styles = StyleSheet.create({
   container: { 
     flex: 1, 
-    backgroundColor: '#000000',
     overflow: 'hidden'
   },
   bubble: {
@@ -472,8 +492,7 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.8)'
   },
   dot: {
-    position: 'absolute',
-    backgroundColor: 'white'
+    position: 'absolute'
   }
 });
 
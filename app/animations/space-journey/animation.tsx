@@ -1,26 +1,31 @@
 import React, { useRef, useEffect } from 'react';
-import { View, Animated, StyleSheet, Easing, Dimensions } from 'react-native';
-import type { AnimationElement } from '../../utils/AnimationManager';
-
-interface AnimationProps {
-  width?: number;
-  height?: number;
-  elements?: AnimationElement[];
-  onAnimationLoaded?: () => void;
-}
-
-const { width: SCREEN_W, height: SCREEN_H } = Dimensions.get('window');
+import { View, Animated, StyleSheet, Easing } from 'react-native';
+import { useAudioReactiveValues } from '../../utils/AudioManager';
+import { CalmAnimationProps, useCalmLifecycle } from '../../utils/CalmAnimation';
 
 /**
  * Enhanced "Space Journey" animation with parallax stars, rotating planets,
- * and smooth looping transitions.
+ * and smooth looping transitions. Stars dim as the intensity falls; with
+ * reduced motion the planets stop spinning and swelling and the stars stop
+ * twinkling in size.
  */
-const SpaceJourneyAnimation: React.FC<AnimationProps> = ({ 
-  width = SCREEN_W, 
-  height = SCREEN_H, 
-  elements = [], 
-  onAnimationLoaded 
+const SpaceJourneyAnimation: React.FC<CalmAnimationProps> = ({
+  width,
+  height,
+  intensity,
+  palette,
+  paused,
+  reducedMotion,
+  windingDown,
+  config,
+  onReady,
+  onPause,
+  onResume,
+  onWindDown,
 }) => {
+  const elements = config.elements ?? [];
+  const moving = useCalmLifecycle({ paused, windingDown, onPause, onResume, onWindDown });
+
   // Initialize animation values internally
   const animationValue = useRef(new Animated.Value(0)).current;
   const rotationValue = useRef(new Animated.Value(0)).current;
@@ -36,6 +41,16 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
     outputRange: [0.1, 0.6, 1, 0.6, 0.1],
   });
 
+  // Stars glow brighter as the sound swells and twinkle on each heartbeat or shush
+  const { level, pulse } = useAudioReactiveValues();
+  const twinkleOpacity = Animated.multiply(
+    Animated.multiply(
+      starOpacity,
+      level.interpolate({ inputRange: [0, 1], outputRange: [0.8, 1] })
+    ),
+    0.4 + 0.6 * intensity
+  );
+
   // Generate star layers for parallax effect
   const starLayers = useRef(
     [...Array(3)].map((_, layer) =>
@@ -49,11 +64,14 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
     )
   ).current;
 
+  // Notify parent that animation is ready, once
+  const readyRef = useRef(onReady);
   useEffect(() => {
-    // Notify parent that animation is loaded
-    if (onAnimationLoaded) {
-      onAnimationLoaded();
-    }
+    readyRef.current();
+  }, []);
+
+  useEffect(() => {
+    if (!moving) return;
 
     // Animate star drift
     const driftAnimation = Animated.loop(
@@ -95,8 +113,10 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
 
     // Start all animations
     driftAnimation.start();
-    rotateAnimation.start();
-    scaleAnimation.start();
+    if (!reducedMotion) {
+      rotateAnimation.start();
+      scaleAnimation.start();
+    }
 
     // Clean up animations on unmount
     return () => {
@@ -104,17 +124,21 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
       rotateAnimation.stop();
       scaleAnimation.stop();
     };
-  }, [animationValue, rotationValue, scaleValue, onAnimationLoaded]);
+  }, [animationValue, rotationValue, scaleValue, moving, reducedMotion]);
 
   // Planets data
+  const accent = (index: number) => palette.accents[index % palette.accents.length];
   const planets = [
-    { size: 80, color: '#3B82F6', x: width * 0.2, y: height * 0.3, z: 2 },
-    { size: 50, color: '#10B981', x: width * 0.8, y: height * 0.5, z: 1 },
-    { size: 100, color: '#F59E0B', x: width * 0.5, y: height * 0.8, z: 3 },
+    { size: 80, color: accent(0), x: width * 0.2, y: height * 0.3, z: 2 },
+    { size: 50, color: accent(1), x: width * 0.8, y: height * 0.5, z: 1 },
+    { size: 100, color: accent(2), x: width * 0.5, y: height * 0.8, z: 3 },
   ];
+  const planetTransform = reducedMotion ? [] : [{ rotate: rotation }, { scale: scaleValue }];
 
   return (
-    <View style={[styles.animationContainer, { width, height }]}>
+    <View
+      style={[styles.animationContainer, { width, height, backgroundColor: palette.background }]}
+    >
       {/* Parallax Star Layers */}
       {starLayers.map((layer) =>
         layer.map((star) => {
@@ -122,6 +146,11 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
             inputRange: [0, 1],
             outputRange: [0, -star.speed * 50],
           });
+          // Nearer stars twinkle more
+          const twinkleScale = pulse.interpolate({
+            inputRange: [0, 1],
+            outputRange: [1, 1.15 + star.layer * 0.1],
+          });
           return (
             <Animated.View
               key={star.id}
@@ -131,10 +160,13 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
                   width: star.size,
                   height: star.size,
                   borderRadius: star.size / 2,
+                  backgroundColor: palette.foreground,
                   top: star.y,
                   left: star.x,
-                  opacity: starOpacity,
-                  transform: [{ translateX: driftX }],
+                  opacity: twinkleOpacity,
+                  transform: reducedMotion
+                    ? [{ translateX: driftX }]
+                    : [{ translateX: driftX }, { scale: twinkleScale }],
                 },
               ]}
             />
@@ -154,7 +186,7 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
               backgroundColor: planet.color,
               top: planet.y - planet.size / 2,
               left: planet.x - planet.size / 2,
-              transform: [{ rotate: rotation }, { scale: scaleValue }],
+              transform: planetTransform,
               zIndex: planet.z,
             },
           ]}
@@ -180,10 +212,10 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
           
           // Apply animations if specified
           const animatedStyle = [];
-          if (animations.rotate) {
+          if (animations.rotate && !reducedMotion) {
             animatedStyle.push({ rotate: rotation });
           }
-          if (animations.scale) {
+          if (animations.scale && !reducedMotion) {
             animatedStyle.push({ scale: scaleValue });
           }
           
@@ -233,12 +265,10 @@ const SpaceJourneyAnimation: React.FC<AnimationProps> = ({
 const styles = StyleSheet.create({
   animationContainer: {
     flex: 1,
-    backgroundColor: 'black',
     overflow: 'hidden',
   },
   star: {
     position: 'absolute',
-    backgroundColor: 'white',
   },
   planet: {
     position: 'absolute',
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import AudioManager, { useAudioState } from './utils/AudioManager';
+import {
+  CribEstimate,
+  LevelZone,
+  SAFE_LEVEL_DB,
+  UNSAFE_LEVEL_DB,
+  estimateAtCrib,
+  getLevelZone,
+  measureLevel,
+  useSoundLevel,
+} from './utils/SoundLevelMeter';
+import { Card, PrimaryButton, SecondaryButton } from './components/UIComponents';
+import { designTokens } from './styles/designTokens';
+
+type CalibrationStep = 'ready' | 'measuring-room' | 'measuring-sound' | 'done' | 'no-microphone';
+
+// How long each measurement listens for, in seconds
+const MEASURE_SECONDS = 3;
+// Time for the sound to fade in or out before measuring, in milliseconds
+const SETTLE_MILLIS = 1500;
+// Range shown by the meter bar, in dB
+const METER_MIN_DB = 20;
+const METER_MAX_DB = 90;
+
+const ZONE_COLORS: Record<LevelZone, string> = {
+  safe: designTokens.colors.success,
+  caution: designTokens.colors.warning,
+  unsafe: designTokens.colors.error,
+};
+
+const ZONE_LABELS: Record<LevelZone, string> = {
+  safe: 'Quiet enough for sleep',
+  caution: 'A little loud for sleep',
+  unsafe: 'Too loud for a baby',
+};
+
+const wait = (millis: number) => new Promise((resolve) => setTimeout(resolve, millis));
+
+export default function CalibrationScreen() {
+  const [step, setStep] = useState<CalibrationStep>('ready');
+  const [estimate, setEstimate] = useState<CribEstimate | null>(null);
+  const level = useSoundLevel(true);
+  const { enabled } = useAudioState();
+  // Cleared when the screen closes, so a measurement in progress stops at its next step
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      // Put the sound back the way the parent had it if they leave mid-measurement
+      AudioManager.syncPlayback();
+    };
+  }, []);
+
+  const handleMeasure = async () => {
+    // The sound is played to measure it, which the parent hasn't allowed
+    if (!AudioManager.getState().enabled) return;
+    setEstimate(null);
+
+    setStep('measuring-room');
+    await AudioManager.stopWhiteNoise();
+    await wait(SETTLE_MILLIS);
+    if (!mountedRef.current) return;
+    const roomDb = await measureLevel(MEASURE_SECONDS);
+    if (!mountedRef.current) return;
+    if (roomDb === null) {
+      setStep('no-microphone');
+      return;
+    }
+
+    setStep('measuring-sound');
+    await AudioManager.startWhiteNoise();
+    await wait(SETTLE_MILLIS);
+    if (!mountedRef.current) return;
+    const withSoundDb = await measureLevel(MEASURE_SECONDS);
+    if (!mountedRef.current) return;
+    const mixLevel = AudioManager.getMixLevel();
+    await AudioManager.syncPlayback();
+    if (!mountedRef.current) return;
+    if (withSoundDb === null) {
+      setStep('no-microphone');
+      return;
+    }
+
+    setEstimate(estimateAtCrib(roomDb, withSoundDb, AudioManager.getVolumeCap(), mixLevel));
+    setStep('done');
+  };
+
+  const handleUseSuggestion = () => {
+    if (estimate) {
+      AudioManager.setVolumeCap(estimate.suggestedCap);
+      router.back();
+    }
+  };
+
+  const renderMeter = () => {
+    const zone = level === null ? null : getLevelZone(level);
+    const ratio =
+      level === null
+        ? 0
+        : Math.max(0, Math.min(1, (level - METER_MIN_DB) / (METER_MAX_DB - METER_MIN_DB)));
+
+    return (
+      <Card style={styles.card}>
+        <Text style={styles.label}>Sound level here</Text>
+        <Text style={[styles.reading, zone && { color: ZONE_COLORS[zone] }]}>
+          {level === null ? '--' : `~${Math.round(level)} dB`}
+        </Text>
+        <View style={styles.meterTrack}>
+          <View
+            style={[
+              styles.meterFill,
+              { width: `${ratio * 100}%` },
+              zone && { backgroundColor: ZONE_COLORS[zone] },
+            ]}
+          />
+        </View>
+        <Text style={styles.hint}>
+          {zone ? ZONE_LABELS[zone] : 'Waiting for the microphone'}
+          {` · safe up to ${SAFE_LEVEL_DB} dB, too loud above ${UNSAFE_LEVEL_DB} dB`}
+        </Text>
+      </Card>
+    );
+  };
+
+  const renderResult = () => {
+    if (step === 'no-microphone') {
+      return (
+        <Text style={styles.warning}>
+          Allow microphone access for My Calm Baby in your phone&apos;s settings to measure
+          sound levels.
+        </Text>
+      );
+    }
+    if (step !== 'done') return null;
+    if (!estimate) {
+      return (
+        <Text style={styles.body}>
+          The sound was too quiet to tell apart from the room. Turn a sound on in the mixer
+          and try again.
+        </Text>
+      );
+    }
+
+    const zone = getLevelZone(estimate.soundDb);
+    const currentCap = AudioManager.getVolumeCap();
+    return (
+      <>
+        <Text style={styles.body}>
+          At the crib the sound will be about{' '}
+          <Text style={{ color: ZONE_COLORS[zone] }}>{Math.round(estimate.soundDb)} dB</Text>.{' '}
+          {ZONE_LABELS[zone]}.
+        </Text>
+        {Math.round(estimate.suggestedCap * 100) !== Math.round(currentCap * 100) && (
+          <PrimaryButton
+            title={`Set maximum volume to ${Math.round(estimate.suggestedCap * 100)}%`}
+            onPress={handleUseSuggestion}
+            style={styles.button}
+          />
+        )}
+      </>
+    );
+  };
+
+  const measuring = step === 'measuring-room' || step === 'measuring-sound';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={designTokens.colors.charcoal} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Measure at the crib</Text>
+        </View>
+
+        {renderMeter()}
+
+        <Card style={styles.card}>
+          <Text style={styles.body}>
+            Put the phone where it will sit during sleep and keep the room quiet. The sound
+            pauses while the room is measured, then plays while it is measured again.
+          </Text>
+          {renderResult()}
+          {!enabled && !measuring && (
+            <Text style={styles.warning}>
+              Sound is turned off. Turn it on to measure how loud it is at the crib.
+            </Text>
+          )}
+          <SecondaryButton
+            title={
+              step === 'measuring-room'
+                ? 'Listening to the room…'
+                : step === 'measuring-sound'
+                  ? 'Listening to the sound…'
+                  : step === 'done'
+                    ? 'Measure again'
+                    : 'Measure'
+            }
+            onPress={handleMeasure}
+            disabled={measuring || !enabled}
+            style={styles.button}
+          />
+        </Card>
+
+        <Text style={styles.hint}>
+          Listening happens only on this phone. Nothing is recorded, saved or sent anywhere.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: designTokens.colors.aliceBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: designTokens.spacing.lg,
+    paddingBottom: designTokens.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: designTokens.spacing.lg,
+    gap: designTokens.spacing.sm,
+  },
+  backButton: {
+    padding: designTokens.spacing.xs,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  reading: {
+    fontSize: designTokens.typography.sizes.xl,
+    fontWeight: designTokens.typography.weights.semibold,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.sm,
+  },
+  meterTrack: {
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: designTokens.colors.lightGray,
+    overflow: 'hidden',
+    marginBottom: designTokens.spacing.sm,
+  },
+  meterFill: {
+    height: '100%',
+    backgroundColor: designTokens.colors.mediumGray,
+  },
+  body: {
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.md,
+  },
+  warning: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.md,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+  },
+  button: {
+    marginBottom: designTokens.spacing.sm,
+  },
+});
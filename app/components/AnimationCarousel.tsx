@@ -11,7 +11,7 @@ import {
   LayoutChangeEvent,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { AnimationConfig } from '../utils/AnimationManager';
+import { AnimationConfig, InvalidAnimation } from '../utils/AnimationManager';
 import { designTokens } from '../styles/designTokens';
 
 const { width } = Dimensions.get('window');
@@ -23,12 +23,15 @@ interface AnimationCarouselProps {
   animations: AnimationConfig[];
   selectedAnimation: string;
   onSelectAnimation: (id: string) => void;
+  // Animation folders that failed to load, listed in development builds only
+  invalidAnimations?: InvalidAnimation[];
 }
 
 const AnimationCarousel: React.FC<AnimationCarouselProps> = ({
   animations,
   selectedAnimation,
   onSelectAnimation,
+  invalidAnimations = [],
 }) => {
   const flatListRef = useRef<FlatList>(null);
   const scrollX = useRef(new Animated.Value(0)).current;
@@ -145,8 +148,32 @@ const AnimationCarousel: React.FC<AnimationCarouselProps> = ({
     );
   };
 
+  const renderInvalidAnimations = () => {
+    if (!__DEV__ || invalidAnimations.length === 0) return null;
+    return (
+      <View style={styles.errorCard}>
+        <Text style={styles.errorTitle}>
+          {invalidAnimations.length === 1
+            ? '1 animation folder was skipped'
+            : `${invalidAnimations.length} animation folders were skipped`}
+        </Text>
+        {invalidAnimations.map(({ folder, errors }) => (
+          <View key={folder} style={styles.errorFolder}>
+            <Text style={styles.errorFolderName}>app/animations/{folder}</Text>
+            {errors.map((error) => (
+              <Text key={error} style={styles.errorText}>
+                • {error}
+              </Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container} onLayout={handleLayout}>
+      {renderInvalidAnimations()}
       <View style={styles.carouselContainer}>
         <FlatList
           ref={flatListRef}
@@ -200,6 +227,32 @@ const styles = StyleSheet.create({
   carouselContainer: {
     overflow: 'visible', // Allow cards to be visible outside container
   },
+  errorCard: {
+    marginHorizontal: designTokens.spacing.lg,
+    marginBottom: designTokens.spacing.md,
+    padding: designTokens.spacing.md,
+    borderRadius: designTokens.borderRadius.md,
+    borderWidth: 1,
+    borderColor: designTokens.colors.error,
+    backgroundColor: designTokens.colors.white,
+  },
+  errorTitle: {
+    fontSize: designTokens.typography.sizes.base,
+    fontWeight: designTokens.typography.weights.semibold,
+    color: designTokens.colors.error,
+  },
+  errorFolder: {
+    marginTop: designTokens.spacing.sm,
+  },
+  errorFolderName: {
+    fontSize: designTokens.typography.sizes.sm,
+    fontWeight: designTokens.typography.weights.semibold,
+    color: designTokens.colors.charcoal,
+  },
+  errorText: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.charcoal,
+  },
   carouselContent: {
     // Dynamic padding will be applied
   },
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { router } from 'expo-router';
+import AudioManager, {
+  AudioMixMode,
+  CRIB_DISTANCE_METERS,
+  DEFAULT_VOLUME_CAP,
+  InterruptionPolicy,
+  MIN_VOLUME_CAP,
+  useAudioState,
+} from '../utils/AudioManager';
+import { designTokens } from '../styles/designTokens';
+import { Card, PillButton, SecondaryButton, Slider } from './UIComponents';
+
+const MIX_MODE_LABELS: Record<AudioMixMode, string> = {
+  solo: 'Pause it',
+  mix: 'Play along',
+  duck: 'Lower it',
+};
+
+const INTERRUPTION_POLICY_LABELS: Record<InterruptionPolicy, string> = {
+  resume: 'Resume',
+  pause: 'Stay paused',
+  continue: 'Keep going',
+};
+
+/**
+ * Card for the main menu with the hearing-safety volume cap and how the
+ * sound behaves alongside the rest of the phone
+ */
+const AudioSettingsCard: React.FC = () => {
+  const [mixMode, setMixMode] = useState<AudioMixMode>('solo');
+  const [interruptionPolicy, setInterruptionPolicy] = useState<InterruptionPolicy>('resume');
+  const { volumeCap } = useAudioState();
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      await AudioManager.initialize();
+      setMixMode(AudioManager.getMixMode());
+      setInterruptionPolicy(AudioManager.getInterruptionPolicy());
+    };
+
+    loadSettings();
+  }, []);
+
+  const handleMixModeChange = (mode: AudioMixMode) => {
+    setMixMode(mode);
+    AudioManager.setMixMode(mode);
+  };
+
+  const handleInterruptionPolicyChange = (policy: InterruptionPolicy) => {
+    setInterruptionPolicy(policy);
+    AudioManager.setInterruptionPolicy(policy);
+  };
+
+  const handleVolumeCapChange = (cap: number, persist: boolean) => {
+    AudioManager.setVolumeCap(cap, persist);
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Slider
+        label={`Maximum volume · ${Math.round(volumeCap * 100)}%`}
+        value={volumeCap}
+        minimumValue={MIN_VOLUME_CAP}
+        maximumValue={1}
+        onValueChange={(cap) => handleVolumeCapChange(cap, false)}
+        onSlidingComplete={(cap) => handleVolumeCapChange(cap, true)}
+      />
+      {volumeCap > DEFAULT_VOLUME_CAP && (
+        <Text style={styles.warning}>
+          Loud sound can harm a baby&apos;s hearing. Keep it as quiet as still soothes them.
+        </Text>
+      )}
+      <Text style={styles.hint}>
+        Place the phone at least {CRIB_DISTANCE_METERS} m (about 7 ft) from the crib, never
+        inside it, and keep the sound no louder than a soft shower.
+      </Text>
+      <SecondaryButton
+        title="Measure at the crib"
+        onPress={() => router.push('/calibration')}
+        style={styles.measureButton}
+      />
+
+      <Text style={styles.label}>Music or podcasts already playing</Text>
+      <View style={styles.segmentedControl}>
+        {(Object.keys(MIX_MODE_LABELS) as AudioMixMode[]).map((mode) => (
+          <PillButton
+            key={mode}
+            title={MIX_MODE_LABELS[mode]}
+            onPress={() => handleMixModeChange(mode)}
+            active={mixMode === mode}
+            style={styles.segmentButton}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>After a call, alarm or unplugged headphones</Text>
+      <View style={styles.segmentedControl}>
+        {(Object.keys(INTERRUPTION_POLICY_LABELS) as InterruptionPolicy[]).map((policy) => (
+          <PillButton
+            key={policy}
+            title={INTERRUPTION_POLICY_LABELS[policy]}
+            onPress={() => handleInterruptionPolicyChange(policy)}
+            active={interruptionPolicy === policy}
+            style={styles.segmentButton}
+          />
+        ))}
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.xs,
+    gap: designTokens.spacing.xs,
+    marginBottom: designTokens.spacing.sm,
+  },
+  segmentButton: {
+    flex: 1,
+  },
+  warning: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.xs,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+    marginBottom: designTokens.spacing.sm,
+  },
+  measureButton: {
+    marginBottom: designTokens.spacing.sm,
+  },
+});
+
+export default AudioSettingsCard;
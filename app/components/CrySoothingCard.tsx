@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import CrySoother, {
+  CryAction,
+  CrySoothingSettings,
+  DEFAULT_CRY_SOOTHING_SETTINGS,
+} from '../utils/CrySoother';
+import { CrySensitivity } from '../utils/CryDetector';
+import Microphone from '../utils/Microphone';
+import { designTokens } from '../styles/designTokens';
+import { Card, PillButton, Toggle } from './UIComponents';
+
+const SENSITIVITY_LABELS: Record<CrySensitivity, string> = {
+  low: 'Loud crying',
+  medium: 'Crying',
+  high: 'Fussing',
+};
+
+const ACTION_LABELS: Record<CryAction, string> = {
+  louder: 'Come up in volume for a while',
+  shush: 'Start the shush rhythm',
+  restartTimer: 'Restart the sleep timer',
+};
+
+/**
+ * Card for the main menu with what the app does when the baby cries during
+ * a session
+ */
+const CrySoothingCard: React.FC = () => {
+  const [settings, setSettings] = useState<CrySoothingSettings>(DEFAULT_CRY_SOOTHING_SETTINGS);
+  const [microphoneDenied, setMicrophoneDenied] = useState(false);
+
+  useEffect(() => {
+    CrySoother.loadSettings().then(setSettings);
+  }, []);
+
+  const handleChange = (changes: Partial<CrySoothingSettings>) => {
+    setSettings((current) => ({
+      ...current,
+      ...changes,
+      actions: { ...current.actions, ...changes.actions },
+    }));
+    CrySoother.setSettings(changes);
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    // Ask for the microphone now rather than in the dark at bedtime
+    if (enabled && !(await Microphone.requestPermission())) {
+      setMicrophoneDenied(true);
+      return;
+    }
+    setMicrophoneDenied(false);
+    handleChange({ enabled });
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Toggle
+        label="Respond to crying"
+        value={settings.enabled}
+        onValueChange={handleEnabledChange}
+      />
+      {microphoneDenied && (
+        <Text style={styles.error}>
+          Allow microphone access in your phone&apos;s settings to respond to crying.
+        </Text>
+      )}
+
+      {settings.enabled && (
+        <>
+          <Text style={styles.label}>Listen for</Text>
+          <View style={styles.segmentedControl}>
+            {(Object.keys(SENSITIVITY_LABELS) as CrySensitivity[]).map((sensitivity) => (
+              <PillButton
+                key={sensitivity}
+                title={SENSITIVITY_LABELS[sensitivity]}
+                onPress={() => handleChange({ sensitivity })}
+                active={settings.sensitivity === sensitivity}
+                style={styles.segmentButton}
+              />
+            ))}
+          </View>
+
+          {(Object.keys(ACTION_LABELS) as CryAction[]).map((action) => (
+            <Toggle
+              key={action}
+              label={ACTION_LABELS[action]}
+              value={settings.actions[action]}
+              onValueChange={(value) =>
+                handleChange({ actions: { ...settings.actions, [action]: value } })
+              }
+            />
+          ))}
+        </>
+      )}
+
+      <Text style={styles.hint}>
+        Listens through the microphone while the animation plays. Sound is checked on this
+        phone as it happens; nothing is recorded or saved.
+      </Text>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.xs,
+    gap: designTokens.spacing.xs,
+    marginBottom: designTokens.spacing.sm,
+  },
+  segmentButton: {
+    flex: 1,
+  },
+  error: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.sm,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+    marginTop: designTokens.spacing.sm,
+  },
+});
+
+export default CrySoothingCard;
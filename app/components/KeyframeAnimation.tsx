@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { View, Animated, StyleSheet, Easing, EasingFunction } from 'react-native';
+import type {
+  AnimationElement,
+  AnimationTimeline,
+  KeyframeEasing,
+  KeyframeProperty,
+} from '../utils/AnimationManager';
+import { CalmAnimationProps, useCalmLifecycle } from '../utils/CalmAnimation';
+
+const EASINGS: Record<KeyframeEasing, EasingFunction> = {
+  linear: Easing.linear,
+  easeIn: Easing.in(Easing.ease),
+  easeOut: Easing.out(Easing.ease),
+  easeInOut: Easing.inOut(Easing.ease),
+  sine: Easing.inOut(Easing.sin),
+};
+
+// Points sampled along each keyframe segment, so every segment can have its
+// own easing within a single native-driven interpolation
+const SEGMENT_SAMPLES = 12;
+
+interface Track {
+  inputRange: number[];
+  outputRange: number[];
+}
+
+type KeyframeTransform =
+  | { translateX: Animated.AnimatedInterpolation<number> }
+  | { translateY: Animated.AnimatedInterpolation<number> }
+  | { rotate: Animated.AnimatedInterpolation<string> }
+  | { scale: Animated.AnimatedInterpolation<number> };
+
+/**
+ * How far an element has got through its timeline, kept across pauses
+ */
+interface TimelinePosition {
+  // Whether the timeline's delay is over
+  started: boolean;
+  // How many runs have finished
+  runs: number;
+}
+
+/**
+ * Sample one property across the keyframes that set it
+ * @returns The samples, or null if no keyframe sets the property
+ */
+function buildTrack(timeline: AnimationTimeline, property: KeyframeProperty): Track | null {
+  const frames = (timeline.keyframes ?? []).filter((frame) => frame[property] !== undefined);
+  if (frames.length === 0) return null;
+
+  const inputRange: number[] = [];
+  const outputRange: number[] = [];
+  // Hold the first and last values before and after their keyframes
+  if (frames[0].at > 0) {
+    inputRange.push(0);
+    outputRange.push(frames[0][property]!);
+  }
+  frames.forEach((frame, index) => {
+    const next = frames[index + 1];
+    if (!next) {
+      inputRange.push(frame.at);
+      outputRange.push(frame[property]!);
+      return;
+    }
+    const easing = EASINGS[frame.easing ?? timeline.easing ?? 'easeInOut'];
+    const from = frame[property]!;
+    const to = next[property]!;
+    for (let sample = 0; sample < SEGMENT_SAMPLES; sample++) {
+      const t = sample / SEGMENT_SAMPLES;
+      inputRange.push(frame.at + t * (next.at - frame.at));
+      outputRange.push(from + easing(t) * (to - from));
+    }
+  });
+  if (inputRange[inputRange.length - 1] < 1) {
+    inputRange.push(1);
+    outputRange.push(outputRange[outputRange.length - 1]);
+  }
+  // A single keyframe is a fixed value, but interpolation needs two points
+  if (inputRange.length === 1) {
+    return { inputRange: [0, 1], outputRange: [outputRange[0], outputRange[0]] };
+  }
+  return { inputRange, outputRange };
+}
+
+/**
+ * Sample a path so the element moves along it at an even speed
+ * @returns The x and y samples in pixels
+ */
+function buildPathTracks(
+  points: { x: number; y: number }[],
+  width: number,
+  height: number
+): { x: Track; y: Track } {
+  const pixels = points.map((point) => ({ x: point.x * width, y: point.y * height }));
+  const distances = [0];
+  for (let i = 1; i < pixels.length; i++) {
+    const step = Math.hypot(pixels[i].x - pixels[i - 1].x, pixels[i].y - pixels[i - 1].y);
+    distances.push(distances[i - 1] + step);
+  }
+  const total = distances[distances.length - 1];
+  const inputRange = distances.map((distance, i) =>
+    total > 0 ? distance / total : i / (distances.length - 1)
+  );
+  return {
+    x: { inputRange, outputRange: pixels.map((point) => point.x) },
+    y: { inputRange, outputRange: pixels.map((point) => point.y) },
+  };
+}
+
+/**
+ * Drive the progress value through the timeline's runs, carrying on from
+ * `position` and `from` so a run cut short by a pause finishes in the time
+ * it had left. A delay cut short starts over.
+ * @param from The progress value to carry on from
+ * @returns A function that stops the runs where they are
+ */
+function startRuns(
+  progress: Animated.Value,
+  timeline: AnimationTimeline,
+  position: TimelinePosition,
+  from: number
+): () => void {
+  const totalRuns =
+    timeline.loop === true ? Infinity : typeof timeline.loop === 'number' ? timeline.loop : 1;
+  let current: Animated.CompositeAnimation | null = null;
+  let stopped = false;
+
+  const step = (value: number) => {
+    if (stopped || position.runs >= totalRuns) return;
+    if (!position.started && timeline.delay) {
+      current = Animated.delay(timeline.delay);
+      current.start(({ finished }) => {
+        if (!finished) return;
+        position.started = true;
+        step(value);
+      });
+      return;
+    }
+    position.started = true;
+
+    // Alternating runs go back and forth; the others start again from 0 each time
+    const toValue = timeline.alternate && position.runs % 2 === 1 ? 0 : 1;
+    const start = !timeline.alternate && value >= 1 ? 0 : value;
+    progress.setValue(start);
+    current = Animated.timing(progress, {
+      toValue,
+      duration: Math.abs(toValue - start) * timeline.duration,
+      easing: Easing.linear,
+      useNativeDriver: true,
+    });
+    current.start(({ finished }) => {
+      if (!finished) return;
+      position.runs++;
+      step(toValue);
+    });
+  };
+
+  step(from);
+  return () => {
+    stopped = true;
+    current?.stop();
+  };
+}
+
+interface KeyframeElementProps {
+  element: AnimationElement;
+  width: number;
+  height: number;
+  moving: boolean;
+  reducedMotion: boolean;
+}
+
+const KeyframeElement: React.FC<KeyframeElementProps> = ({
+  element,
+  width,
+  height,
+  moving,
+  reducedMotion,
+}) => {
+  const { type, properties, timeline } = element;
+  const { size, color } = properties;
+  const progress = useMemo(() => new Animated.Value(0), []);
+  const position = useRef<TimelinePosition>({ started: false, runs: 0 });
+
+  useEffect(() => {
+    if (!timeline || !moving) return;
+    let cancelled = false;
+    let stopRuns = () => {};
+    // The value lives on the native side while running, so ask for it there
+    progress.stopAnimation((value) => {
+      if (!cancelled) {
+        stopRuns = startRuns(progress, timeline, position.current, value);
+      }
+    });
+    return () => {
+      cancelled = true;
+      stopRuns();
+    };
+  }, [progress, timeline, moving]);
+
+  const style = useMemo(() => {
+    const start = timeline?.path?.[0] ?? properties.position ?? { x: 0.5, y: 0.5 };
+    const left = start.x * width;
+    const top = start.y * height;
+    const transform: KeyframeTransform[] = [];
+    let opacity: Animated.AnimatedInterpolation<number> | undefined;
+
+    if (timeline) {
+      const track = (property: KeyframeProperty, scaleBy: number = 1) => {
+        const samples = buildTrack(timeline, property);
+        return (
+          samples &&
+          progress.interpolate({
+            inputRange: samples.inputRange,
+            outputRange: samples.outputRange.map((value) => value * scaleBy),
+          })
+        );
+      };
+
+      if (timeline.path) {
+        const path = buildPathTracks(timeline.path, width, height);
+        transform.push(
+          {
+            translateX: progress.interpolate({
+              inputRange: path.x.inputRange,
+              outputRange: path.x.outputRange.map((x) => x - left),
+            }),
+          },
+          {
+            translateY: progress.interpolate({
+              inputRange: path.y.inputRange,
+              outputRange: path.y.outputRange.map((y) => y - top),
+            }),
+          }
+        );
+      } else {
+        const x = track('x', width);
+        const y = track('y', height);
+        if (x) transform.push({ translateX: x });
+        if (y) transform.push({ translateY: y });
+      }
+
+      const rotate = reducedMotion ? null : buildTrack(timeline, 'rotate');
+      if (rotate) {
+        transform.push({
+          rotate: progress.interpolate({
+            inputRange: rotate.inputRange,
+            outputRange: rotate.outputRange.map((degrees) => `${degrees}deg`),
+          }),
+        });
+      }
+      const scale = reducedMotion ? null : track('scale');
+      if (scale) transform.push({ scale });
+      opacity = track('opacity') ?? undefined;
+    }
+
+    return {
+      position: 'absolute' as const,
+      left: left - size / 2,
+      top: top - size / 2,
+      transform,
+      ...(opacity && { opacity }),
+    };
+  }, [progress, timeline, properties.position, width, height, size, reducedMotion]);
+
+  switch (type) {
+    case 'circle':
+      return (
+        <Animated.View
+          style={[
+            style,
+            { width: size, height: size, borderRadius: size / 2, backgroundColor: color },
+          ]}
+        />
+      );
+    case 'square':
+      return (
+        <Animated.View
+          style={[
+            style,
+            { width: size, height: size, borderRadius: 10, backgroundColor: color },
+          ]}
+        />
+      );
+    case 'triangle':
+      return (
+        <Animated.View
+          style={[
+            style,
+            styles.triangle,
+            {
+              borderBottomWidth: size,
+              borderLeftWidth: size / 2,
+              borderRightWidth: size / 2,
+              borderBottomColor: color,
+            },
+          ]}
+        />
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Draws an animation described entirely in animation.json: each element's
+ * timeline of keyframes and path is turned into interpolations of a single
+ * progress value, so everything runs on the native thread. Lower intensity
+ * dims the elements; reduced motion leaves out their rotation and scaling.
+ */
+const KeyframeAnimation: React.FC<CalmAnimationProps> = ({
+  width,
+  height,
+  intensity,
+  palette,
+  paused,
+  reducedMotion,
+  windingDown,
+  config,
+  onReady,
+  onPause,
+  onResume,
+  onWindDown,
+}) => {
+  const moving = useCalmLifecycle({ paused, windingDown, onPause, onResume, onWindDown });
+
+  // Report readiness once, however often the parent passes a new callback
+  const readyRef = useRef(onReady);
+  useEffect(() => {
+    readyRef.current();
+  }, []);
+
+  return (
+    <View style={[styles.container, { width, height, backgroundColor: palette.background }]}>
+      <View style={[styles.elements, { opacity: 0.4 + 0.6 * intensity }]}>
+        {(config.elements ?? []).map((element, index) => (
+          <KeyframeElement
+            key={index}
+            element={element}
+            width={width}
+            height={height}
+            moving={moving}
+            reducedMotion={reducedMotion}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  elements: {
+    flex: 1,
+  },
+  triangle: {
+    width: 0,
+    height: 0,
+    backgroundColor: 'transparent',
+    borderStyle: 'solid',
+    borderLeftColor: 'transparent',
+    borderRightColor: 'transparent',
+  },
+});
+
+export default KeyframeAnimation;
@@ -0,0 +1,126 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, TouchableWithoutFeedback } from 'react-native';
+import LottieView from 'lottie-react-native';
+import type { LottieSegment } from '../utils/AnimationManager';
+import { CalmAnimationProps, useCalmLifecycle } from '../utils/CalmAnimation';
+
+/**
+ * Plays an animation's Lottie file: its loop repeats until the baby taps,
+ * then the next tap segment plays once and the loop picks up again. Taps
+ * during a tap segment are only passed on, so a flurry of them can't make
+ * the animation jump about.
+ *
+ * Lower intensity slows playback down to half speed. With reduced motion the
+ * loop holds still on the first frame, and only taps set it moving.
+ */
+const LottieAnimation: React.FC<CalmAnimationProps> = ({
+  width,
+  height,
+  intensity,
+  palette,
+  paused,
+  reducedMotion,
+  windingDown,
+  config,
+  onReady,
+  onPause,
+  onResume,
+  onWindDown,
+  onBackgroundTap,
+}) => {
+  const { lottie, lottieSource } = config;
+  const lottieRef = useRef<LottieView>(null);
+  const [loaded, setLoaded] = useState(false);
+  const nextTapSegment = useRef(0);
+  const [tapSegment, setTapSegment] = useState<LottieSegment | null>(null);
+  const moving = useCalmLifecycle({ paused, windingDown, onPause, onResume, onWindDown });
+
+  // Report readiness once, however often the parent passes a new callback
+  const readyRef = useRef(onReady);
+
+  const playLoop = useCallback(() => {
+    const loop = lottie?.loop;
+    if (reducedMotion) {
+      lottieRef.current?.reset();
+    } else if (loop) {
+      lottieRef.current?.play(loop[0], loop[1]);
+    } else {
+      lottieRef.current?.play();
+    }
+  }, [lottie, reducedMotion]);
+
+  const handleLoaded = useCallback(() => {
+    if (!loaded) {
+      setLoaded(true);
+      readyRef.current();
+    }
+  }, [loaded]);
+
+  // Play the tap segment that was just chosen, or go back to the loop once it
+  // is done; hold still while paused or winding down
+  useEffect(() => {
+    if (!loaded) return;
+    if (!moving) {
+      lottieRef.current?.pause();
+    } else if (tapSegment) {
+      lottieRef.current?.play(tapSegment[0], tapSegment[1]);
+    } else {
+      playLoop();
+    }
+  }, [loaded, moving, tapSegment, playLoop]);
+
+  const handleTouch = useCallback(
+    (event: any) => {
+      const { pageX, pageY } = event.nativeEvent;
+      // Notify parent (unlock logic expects absolute coordinates)
+      onBackgroundTap?.(pageX, pageY);
+
+      const segments = lottie?.tapSegments ?? [];
+      if (segments.length === 0 || tapSegment || !moving) return;
+      setTapSegment(segments[nextTapSegment.current % segments.length]);
+      nextTapSegment.current++;
+    },
+    [lottie, tapSegment, moving, onBackgroundTap]
+  );
+
+  const handleFinish = useCallback(
+    (isCancelled: boolean) => {
+      if (!isCancelled && tapSegment) {
+        setTapSegment(null);
+      }
+    },
+    [tapSegment]
+  );
+
+  if (!lottieSource) return null;
+
+  return (
+    <TouchableWithoutFeedback onPress={handleTouch}>
+      <View style={[styles.container, { width, height, backgroundColor: palette.background }]}>
+        <LottieView
+          ref={lottieRef}
+          source={lottieSource}
+          speed={(lottie?.speed ?? 1) * (0.5 + 0.5 * intensity)}
+          // The loop repeats on its own; tap segments play once and report back
+          loop={tapSegment === null}
+          autoPlay={false}
+          resizeMode="contain"
+          style={styles.lottie}
+          onAnimationLoaded={handleLoaded}
+          onAnimationFinish={handleFinish}
+        />
+      </View>
+    </TouchableWithoutFeedback>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  lottie: {
+    flex: 1,
+  },
+});
+
+export default LottieAnimation;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import AudioManager, {
+  AudioEndMode,
+  AudioEndPolicy,
+  DEFAULT_AUDIO_END_POLICY,
+} from '../utils/AudioManager';
+import { FadeOutCurve } from '../utils/AudioEngine';
+import { designTokens } from '../styles/designTokens';
+import { Card, PillButton, Slider } from './UIComponents';
+
+type SleepTimer = 15 | 30 | 60;
+
+const SLEEP_TIMERS: SleepTimer[] = [15, 30, 60];
+
+const END_MODE_LABELS: Record<AudioEndMode, string> = {
+  fade: 'Fade out',
+  extend: 'Play longer',
+  continue: 'Keep playing',
+};
+
+const FADE_CURVE_LABELS: Record<FadeOutCurve, string> = {
+  linear: 'Even',
+  exponential: 'Gentle',
+};
+
+const MAX_FADE_MINUTES = 15;
+const MIN_EXTRA_MINUTES = 5;
+const MAX_EXTRA_MINUTES = 60;
+
+/**
+ * Sleep timer card for the main menu: how long the animation runs and what
+ * the sound does when it ends
+ */
+const SleepTimerCard: React.FC = () => {
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer>(30);
+  const [endPolicy, setEndPolicy] = useState<AudioEndPolicy>(DEFAULT_AUDIO_END_POLICY);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const savedTimer = await AsyncStorage.getItem('sleepTimer');
+        if (savedTimer) {
+          setSleepTimer(parseInt(savedTimer) as SleepTimer);
+        }
+        await AudioManager.initialize();
+        setEndPolicy(AudioManager.getEndPolicy());
+      } catch (error) {
+        console.error('Failed to load sleep timer settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const handleSleepTimerChange = (timer: SleepTimer) => {
+    setSleepTimer(timer);
+    AsyncStorage.setItem('sleepTimer', timer.toString());
+  };
+
+  const handleEndPolicyChange = (changes: Partial<AudioEndPolicy>, persist: boolean = true) => {
+    setEndPolicy((current) => ({ ...current, ...changes }));
+    AudioManager.setEndPolicy(changes, persist);
+  };
+
+  const handleMinutesChange = (
+    key: 'fadeMinutes' | 'extraMinutes',
+    minutes: number,
+    persist: boolean
+  ) => {
+    handleEndPolicyChange({ [key]: Math.round(minutes) }, persist);
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Text style={styles.label}>Sleep Timer</Text>
+      <View style={styles.segmentedControl}>
+        {SLEEP_TIMERS.map((timer) => (
+          <PillButton
+            key={timer}
+            title={`${timer}m`}
+            onPress={() => handleSleepTimerChange(timer)}
+            active={sleepTimer === timer}
+            style={styles.segmentButton}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>When the timer ends, the sound should</Text>
+      <View style={styles.segmentedControl}>
+        {(Object.keys(END_MODE_LABELS) as AudioEndMode[]).map((mode) => (
+          <PillButton
+            key={mode}
+            title={END_MODE_LABELS[mode]}
+            onPress={() => handleEndPolicyChange({ mode })}
+            active={endPolicy.mode === mode}
+            style={styles.segmentButton}
+          />
+        ))}
+      </View>
+
+      {endPolicy.mode === 'extend' && (
+        <Slider
+          label={`Play for ${endPolicy.extraMinutes} more minutes`}
+          value={endPolicy.extraMinutes}
+          minimumValue={MIN_EXTRA_MINUTES}
+          maximumValue={MAX_EXTRA_MINUTES}
+          onValueChange={(minutes) => handleMinutesChange('extraMinutes', minutes, false)}
+          onSlidingComplete={(minutes) => handleMinutesChange('extraMinutes', minutes, true)}
+        />
+      )}
+      {endPolicy.mode !== 'continue' && (
+        <>
+          <Slider
+            label={`Fade out over the last ${endPolicy.fadeMinutes} min`}
+            value={endPolicy.fadeMinutes}
+            minimumValue={1}
+            maximumValue={MAX_FADE_MINUTES}
+            onValueChange={(minutes) => handleMinutesChange('fadeMinutes', minutes, false)}
+            onSlidingComplete={(minutes) => handleMinutesChange('fadeMinutes', minutes, true)}
+          />
+          <View style={styles.segmentedControl}>
+            {(Object.keys(FADE_CURVE_LABELS) as FadeOutCurve[]).map((curve) => (
+              <PillButton
+                key={curve}
+                title={FADE_CURVE_LABELS[curve]}
+                onPress={() => handleEndPolicyChange({ curve })}
+                active={endPolicy.curve === curve}
+                style={styles.segmentButton}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.xs,
+    gap: designTokens.spacing.xs,
+    marginBottom: designTokens.spacing.sm,
+  },
+  segmentButton: {
+    flex: 1,
+  },
+});
+
+export default SleepTimerCard;
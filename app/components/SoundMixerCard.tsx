@@ -0,0 +1,446 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import AudioManager, { AudioInterruption, useAudioState } from '../utils/AudioManager';
+import { LayerId, LayerInfo, Soundscape } from '../utils/SoundscapeMixer';
+import { NoiseColor, NOISE_COLORS, NOISE_COLOR_LABELS } from '../utils/NoiseSynthesis';
+import { DEFAULT_HEARTBEAT_SETTINGS, HeartbeatSettings } from '../utils/HeartbeatGenerator';
+import { MAX_HEARTBEAT_BPM, MIN_HEARTBEAT_BPM } from '../utils/HeartbeatSynthesis';
+import {
+  DEFAULT_RHYTHM_SETTINGS,
+  MAX_RHYTHM_RATE,
+  MIN_RHYTHM_RATE,
+  RhythmSettings,
+} from '../utils/RhythmClock';
+import { DEFAULT_TONE_SETTINGS, ToneSettings } from '../utils/ToneSynthesizer';
+import { designTokens } from '../styles/designTokens';
+import { Card, PillButton, SecondaryButton, Slider, Toggle } from './UIComponents';
+
+const INTERRUPTION_CAUSE_TEXT: Record<AudioInterruption['cause'], string> = {
+  interruption: 'a call or alarm',
+  'route-change': 'headphones or a speaker disconnecting',
+};
+
+const describeInterruption = ({ cause, stoppedAt }: AudioInterruption): string => {
+  const time = new Date(stoppedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `The sound stopped at ${time} because of ${INTERRUPTION_CAUSE_TEXT[cause]}.`;
+};
+
+/**
+ * Mixer card for the main menu: a master sound toggle, one row per layer
+ * with its own mute, volume and (for library sounds) loop, and saved
+ * soundscapes.
+ */
+const SoundMixerCard: React.FC = () => {
+  const audioState = useAudioState();
+  const [layers, setLayers] = useState<LayerInfo[]>([]);
+  const [noiseColor, setNoiseColor] = useState<NoiseColor>('white');
+  const [noiseTone, setNoiseTone] = useState(0);
+  const [heartbeat, setHeartbeat] = useState<HeartbeatSettings>(DEFAULT_HEARTBEAT_SETTINGS);
+  const [rhythm, setRhythm] = useState<RhythmSettings>(DEFAULT_RHYTHM_SETTINGS);
+  const [tones, setTones] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
+  const [soundPinned, setSoundPinned] = useState(false);
+  const [soundscapes, setSoundscapes] = useState<Soundscape[]>([]);
+  const [soundscapeName, setSoundscapeName] = useState('');
+
+  useEffect(() => {
+    const loadMixer = async () => {
+      await AudioManager.initialize();
+      setLayers(AudioManager.getLayers());
+      setNoiseColor(AudioManager.getNoiseColor());
+      setNoiseTone(AudioManager.getNoiseTone());
+      setHeartbeat(AudioManager.getHeartbeat());
+      setRhythm(AudioManager.getRhythm());
+      setTones(AudioManager.getInteractionSounds());
+      setSoundPinned(AudioManager.isSoundPinned());
+      setSoundscapes(await AudioManager.getSoundscapes());
+    };
+
+    loadMixer();
+  }, []);
+
+  // Recording or importing adds a layer and an animation may bring its own
+  // sound, so pick up the mix again when coming back to the menu
+  useFocusEffect(
+    useCallback(() => {
+      setLayers(AudioManager.getLayers());
+      setNoiseColor(AudioManager.getNoiseColor());
+    }, [])
+  );
+
+  const updateLayerState = (id: LayerId, changes: Partial<LayerInfo>) => {
+    setLayers((current) =>
+      current.map((layer) => (layer.id === id ? { ...layer, ...changes } : layer))
+    );
+  };
+
+  const handleLayerToggle = (id: LayerId, on: boolean) => {
+    updateLayerState(id, { muted: !on });
+    AudioManager.updateLayer(id, { muted: !on });
+  };
+
+  const handleLayerLoopToggle = (id: LayerId, loop: boolean) => {
+    updateLayerState(id, { loop });
+    AudioManager.updateLayer(id, { loop });
+  };
+
+  const handleLayerVolumeChange = (id: LayerId, volume: number) => {
+    updateLayerState(id, { volume });
+    AudioManager.updateLayer(id, { volume }, false);
+  };
+
+  const handleLayerVolumeComplete = (id: LayerId, volume: number) => {
+    updateLayerState(id, { volume });
+    AudioManager.updateLayer(id, { volume });
+  };
+
+  const handleNoiseColorChange = (color: NoiseColor) => {
+    setNoiseColor(color);
+    AudioManager.setNoiseColor(color);
+  };
+
+  const handleNoiseToneChange = (tone: number) => {
+    setNoiseTone(tone);
+    AudioManager.setNoiseTone(tone, false);
+  };
+
+  const handleNoiseToneComplete = (tone: number) => {
+    setNoiseTone(tone);
+    AudioManager.setNoiseTone(tone);
+  };
+
+  // A new rate means rendering a new heartbeat, so only apply it when the slider is released
+  const handleHeartbeatRateChange = (bpm: number) => {
+    setHeartbeat((current) => ({ ...current, bpm: Math.round(bpm) }));
+  };
+
+  const handleHeartbeatChange = (changes: Partial<HeartbeatSettings>, persist: boolean = true) => {
+    setHeartbeat((current) => ({ ...current, ...changes }));
+    AudioManager.setHeartbeat(changes, persist);
+  };
+
+  const handleRhythmChange = (changes: Partial<RhythmSettings>, persist: boolean = true) => {
+    setRhythm((current) => ({ ...current, ...changes }));
+    AudioManager.setRhythm(changes, persist);
+  };
+
+  const handleTonesChange = (changes: Partial<ToneSettings>, persist: boolean = true) => {
+    setTones((current) => ({ ...current, ...changes }));
+    AudioManager.setInteractionSounds(changes, persist);
+  };
+
+  const handleSoundPinnedChange = (pinned: boolean) => {
+    setSoundPinned(pinned);
+    AudioManager.setSoundPinned(pinned);
+  };
+
+  const handleSaveSoundscape = async () => {
+    if (!soundscapeName.trim()) return;
+    setSoundscapes(await AudioManager.saveSoundscape(soundscapeName));
+    setSoundscapeName('');
+  };
+
+  const handleLoadSoundscape = async (name: string) => {
+    const loaded = await AudioManager.loadSoundscape(name);
+    if (loaded) {
+      setLayers(loaded);
+    }
+  };
+
+  const handleDeleteSoundscape = async (name: string) => {
+    setSoundscapes(await AudioManager.deleteSoundscape(name));
+  };
+
+  const renderNoiseControls = () => (
+    <>
+      <View style={styles.segmentedControl}>
+        {NOISE_COLORS.map((color) => (
+          <PillButton
+            key={color}
+            title={NOISE_COLOR_LABELS[color]}
+            onPress={() => handleNoiseColorChange(color)}
+            active={noiseColor === color}
+            style={styles.segmentButton}
+          />
+        ))}
+      </View>
+      <Slider
+        label="Tone"
+        value={noiseTone}
+        minimumValue={-1}
+        maximumValue={1}
+        onValueChange={handleNoiseToneChange}
+        onSlidingComplete={handleNoiseToneComplete}
+        minimumLabel="Bright"
+        maximumLabel="Deep"
+      />
+    </>
+  );
+
+  const renderHeartbeatControls = () => (
+    <>
+      <Slider
+        label={`Heart rate · ${heartbeat.bpm} BPM`}
+        value={heartbeat.bpm}
+        minimumValue={MIN_HEARTBEAT_BPM}
+        maximumValue={MAX_HEARTBEAT_BPM}
+        onValueChange={handleHeartbeatRateChange}
+        onSlidingComplete={(bpm) => handleHeartbeatChange({ bpm: Math.round(bpm) })}
+        minimumLabel="Slower"
+        maximumLabel="Faster"
+      />
+      <Slider
+        label="Depth"
+        value={heartbeat.depth}
+        onValueChange={(depth) => handleHeartbeatChange({ depth }, false)}
+        onSlidingComplete={(depth) => handleHeartbeatChange({ depth })}
+        minimumLabel="Close"
+        maximumLabel="Muffled"
+      />
+      <Toggle
+        value={heartbeat.womb}
+        onValueChange={(womb) => handleHeartbeatChange({ womb })}
+        label="Womb sounds"
+      />
+    </>
+  );
+
+  const renderLayer = (layer: LayerInfo) => (
+    <View key={layer.id} style={styles.layer}>
+      <Toggle
+        value={!layer.muted}
+        onValueChange={(on) => handleLayerToggle(layer.id, on)}
+        label={layer.label}
+      />
+      {!layer.muted && (
+        <>
+          <Slider
+            value={layer.volume}
+            onValueChange={(volume) => handleLayerVolumeChange(layer.id, volume)}
+            onSlidingComplete={(volume) => handleLayerVolumeComplete(layer.id, volume)}
+          />
+          {layer.id === 'noise' && renderNoiseControls()}
+          {layer.id === 'heartbeat' && renderHeartbeatControls()}
+          {layer.id === 'lullabies' && AudioManager.getPlaylist().tracks.length === 0 && (
+            <Text style={styles.hint}>
+              Add songs with &quot;Import songs and lullabies&quot; below.
+            </Text>
+          )}
+          {!layer.generated && (
+            <Toggle
+              value={layer.loop}
+              onValueChange={(loop) => handleLayerLoopToggle(layer.id, loop)}
+              label="Loop"
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <Card style={styles.card}>
+      <Toggle
+        value={audioState.playing}
+        onValueChange={(enabled) => AudioManager.setEnabled(enabled)}
+        label="Sound"
+      />
+      {audioState.error && <Text style={styles.error}>{audioState.error}</Text>}
+      {audioState.interruption && (
+        <View style={styles.notice}>
+          <Text style={styles.noticeText}>{describeInterruption(audioState.interruption)}</Text>
+          <PillButton title="OK" onPress={() => AudioManager.dismissInterruption()} />
+        </View>
+      )}
+
+      {layers.map(renderLayer)}
+
+      <View style={styles.layer}>
+        <SecondaryButton
+          title="Record your own shush or song"
+          onPress={() => router.push('/record-voice')}
+          style={styles.libraryButton}
+        />
+        <SecondaryButton
+          title="Import songs and lullabies"
+          onPress={() => router.push('/sound-library')}
+        />
+      </View>
+
+      <View style={styles.layer}>
+        <Toggle
+          value={rhythm.enabled}
+          onValueChange={(enabled) => handleRhythmChange({ enabled })}
+          label="Rhythmic shush"
+        />
+        {rhythm.enabled && (
+          <>
+            <Slider
+              label={`Rhythm · ${Math.round(rhythm.rate * 60)} per minute`}
+              value={rhythm.rate}
+              minimumValue={MIN_RHYTHM_RATE}
+              maximumValue={MAX_RHYTHM_RATE}
+              onValueChange={(rate) => handleRhythmChange({ rate }, false)}
+              onSlidingComplete={(rate) => handleRhythmChange({ rate })}
+              minimumLabel="Slower"
+              maximumLabel="Faster"
+            />
+            <Slider
+              label="Strength"
+              value={rhythm.depth}
+              onValueChange={(depth) => handleRhythmChange({ depth }, false)}
+              onSlidingComplete={(depth) => handleRhythmChange({ depth })}
+              minimumLabel="Gentle"
+              maximumLabel="Strong"
+            />
+          </>
+        )}
+      </View>
+
+      <View style={styles.layer}>
+        <Toggle
+          value={tones.enabled}
+          onValueChange={(enabled) => handleTonesChange({ enabled })}
+          label="Tap sounds"
+        />
+        {tones.enabled && (
+          <Slider
+            value={tones.volume}
+            onValueChange={(volume) => handleTonesChange({ volume }, false)}
+            onSlidingComplete={(volume) => handleTonesChange({ volume })}
+          />
+        )}
+        <Text style={styles.hint}>Soft notes when your baby touches the animation</Text>
+      </View>
+
+      <View style={styles.soundscapes}>
+        <Text style={styles.sectionLabel}>Soundscapes</Text>
+        <Toggle
+          value={soundPinned}
+          onValueChange={handleSoundPinnedChange}
+          label="Keep my mix for every animation"
+        />
+        <Text style={styles.hint}>
+          {soundPinned
+            ? 'Animations play with the mix you set here'
+            : 'Some animations start with a sound chosen to match them'}
+        </Text>
+        {soundscapes.length > 0 && (
+          <>
+            <View style={styles.soundscapeList}>
+              {soundscapes.map((soundscape) => (
+                <PillButton
+                  key={soundscape.name}
+                  title={soundscape.name}
+                  onPress={() => handleLoadSoundscape(soundscape.name)}
+                  onLongPress={() => handleDeleteSoundscape(soundscape.name)}
+                />
+              ))}
+            </View>
+            <Text style={styles.hint}>Tap to play a mix, press and hold to delete it</Text>
+          </>
+        )}
+        <View style={styles.saveRow}>
+          <TextInput
+            style={styles.nameInput}
+            value={soundscapeName}
+            onChangeText={setSoundscapeName}
+            placeholder="Name this mix"
+            placeholderTextColor={designTokens.colors.darkGray}
+            returnKeyType="done"
+            onSubmitEditing={handleSaveSoundscape}
+          />
+          <PillButton
+            title="Save"
+            onPress={handleSaveSoundscape}
+            disabled={!soundscapeName.trim()}
+          />
+        </View>
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 24,
+  },
+  layer: {
+    borderTopWidth: 1,
+    borderTopColor: designTokens.colors.lightGray,
+    paddingTop: designTokens.spacing.sm,
+    marginTop: designTokens.spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.xs,
+    gap: designTokens.spacing.xs,
+    marginVertical: designTokens.spacing.sm,
+  },
+  segmentButton: {
+    flex: 1,
+  },
+  libraryButton: {
+    marginBottom: designTokens.spacing.sm,
+  },
+  soundscapes: {
+    borderTopWidth: 1,
+    borderTopColor: designTokens.colors.lightGray,
+    paddingTop: designTokens.spacing.md,
+    marginTop: designTokens.spacing.sm,
+  },
+  sectionLabel: {
+    fontSize: designTokens.typography.sizes.base,
+    fontWeight: designTokens.typography.weights.medium,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.sm,
+  },
+  soundscapeList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: designTokens.spacing.sm,
+  },
+  error: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.sm,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: designTokens.spacing.sm,
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.sm,
+    marginBottom: designTokens.spacing.sm,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.charcoal,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+    marginTop: designTokens.spacing.xs,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: designTokens.spacing.sm,
+    marginTop: designTokens.spacing.md,
+  },
+  nameInput: {
+    flex: 1,
+    height: 36,
+    borderRadius: designTokens.borderRadius.sm,
+    backgroundColor: designTokens.colors.lightGray,
+    paddingHorizontal: designTokens.spacing.md,
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.charcoal,
+  },
+});
+
+export default SoundMixerCard;
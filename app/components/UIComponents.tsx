@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,8 @@ import {
   ViewStyle,
   TextStyle,
   Switch,
+  PanResponder,
+  LayoutChangeEvent,
 } from 'react-native';
 import { designTokens } from '../styles/designTokens';
 
@@ -59,10 +61,14 @@ export const SecondaryButton: React.FC<ButtonProps> = ({
   </TouchableOpacity>
 );
 
-export const PillButton: React.FC<ButtonProps & { active?: boolean }> = ({
+export const PillButton: React.FC<
+  ButtonProps & { active?: boolean; onLongPress?: () => void }
+> = ({
   title,
   onPress,
+  onLongPress,
   active = false,
+  disabled = false,
   style,
   textStyle,
 }) => (
@@ -70,9 +76,12 @@ export const PillButton: React.FC<ButtonProps & { active?: boolean }> = ({
     style={[
       styles.pillButton,
       active && styles.pillButtonActive,
+      disabled && styles.pillButtonDisabled,
       style,
     ]}
     onPress={onPress}
+    onLongPress={onLongPress}
+    disabled={disabled}
   >
     <Text style={[
       styles.pillButtonText,
@@ -122,6 +131,94 @@ export const Toggle: React.FC<ToggleProps> = ({ value, onValueChange, label }) =
   </View>
 );
 
+// Slider Component
+interface SliderProps {
+  value: number;
+  onValueChange: (value: number) => void;
+  onSlidingComplete?: (value: number) => void;
+  minimumValue?: number;
+  maximumValue?: number;
+  label?: string;
+  minimumLabel?: string;
+  maximumLabel?: string;
+  style?: ViewStyle;
+}
+
+const SLIDER_THUMB_SIZE = 24;
+
+export const Slider: React.FC<SliderProps> = ({
+  value,
+  onValueChange,
+  onSlidingComplete,
+  minimumValue = 0,
+  maximumValue = 1,
+  label,
+  minimumLabel,
+  maximumLabel,
+  style,
+}) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  // The pan responder is created once, so it reads the latest props from a ref
+  const latest = useRef({ trackWidth, onValueChange, onSlidingComplete, minimumValue, maximumValue });
+  latest.current = { trackWidth, onValueChange, onSlidingComplete, minimumValue, maximumValue };
+
+  const valueAt = (x: number) => {
+    const { trackWidth: width, minimumValue: min, maximumValue: max } = latest.current;
+    if (width <= 0) return min;
+    const ratio = Math.max(0, Math.min(1, x / width));
+    return min + ratio * (max - min);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture when the parent ScrollView wants to scroll
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (evt) => {
+        latest.current.onValueChange(valueAt(evt.nativeEvent.locationX));
+      },
+      onPanResponderMove: (evt) => {
+        latest.current.onValueChange(valueAt(evt.nativeEvent.locationX));
+      },
+      onPanResponderRelease: (evt) => {
+        latest.current.onSlidingComplete?.(valueAt(evt.nativeEvent.locationX));
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const ratio = (value - minimumValue) / (maximumValue - minimumValue || 1);
+  const thumbLeft = Math.max(0, Math.min(1, ratio)) * trackWidth - SLIDER_THUMB_SIZE / 2;
+
+  return (
+    <View style={[styles.sliderContainer, style]}>
+      {label && <Text style={styles.sliderLabel}>{label}</Text>}
+      <View
+        style={styles.sliderTouchArea}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        <View style={styles.sliderTrack} pointerEvents="none" />
+        <View
+          style={[styles.sliderFill, { width: Math.max(0, thumbLeft + SLIDER_THUMB_SIZE / 2) }]}
+          pointerEvents="none"
+        />
+        <View style={[styles.sliderThumb, { left: thumbLeft }]} pointerEvents="none" />
+      </View>
+      {(minimumLabel || maximumLabel) && (
+        <View style={styles.sliderEndLabels}>
+          <Text style={styles.sliderEndLabel}>{minimumLabel}</Text>
+          <Text style={styles.sliderEndLabel}>{maximumLabel}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
 // Section Header
 interface SectionHeaderProps {
   title: string;
@@ -215,6 +312,9 @@ const styles = StyleSheet.create({
   pillButtonActive: {
     backgroundColor: designTokens.colors.primary,
   },
+  pillButtonDisabled: {
+    opacity: 0.5,
+  },
   pillButtonText: {
     color: designTokens.colors.darkGray,
     fontSize: designTokens.typography.sizes.sm,
@@ -255,6 +355,55 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   
+  // Slider Styles
+  sliderContainer: {
+    paddingVertical: designTokens.spacing.sm,
+  },
+  sliderLabel: {
+    fontSize: designTokens.typography.sizes.base,
+    fontWeight: designTokens.typography.weights.medium,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.sm,
+  },
+  sliderTouchArea: {
+    height: SLIDER_THUMB_SIZE + designTokens.spacing.md,
+    justifyContent: 'center',
+    marginHorizontal: SLIDER_THUMB_SIZE / 2,
+  },
+  sliderTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: designTokens.colors.mediumGray,
+  },
+  sliderFill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: designTokens.colors.primary,
+  },
+  sliderThumb: {
+    position: 'absolute',
+    width: SLIDER_THUMB_SIZE,
+    height: SLIDER_THUMB_SIZE,
+    borderRadius: SLIDER_THUMB_SIZE / 2,
+    backgroundColor: designTokens.colors.white,
+    borderWidth: 2,
+    borderColor: designTokens.colors.primary,
+    ...designTokens.shadows.sm,
+  },
+  sliderEndLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  sliderEndLabel: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+  },
+
   // Text Styles
   sectionHeader: {
     fontSize: designTokens.typography.sizes.lg,
@@ -292,6 +441,7 @@ export default {
   Card,
   FeatureCard,
   Toggle,
+  Slider,
   SectionHeader,
   MoodButton,
 };
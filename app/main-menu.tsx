@@ -9,52 +9,35 @@ import {
   Image
 } from 'react-native';
 import { router } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Ionicons } from '@expo/vector-icons';
 import AudioManager from './utils/AudioManager';
 import { designTokens } from './styles/designTokens';
-import {
-  PillButton,
-  Card,
-  Toggle,
-} from './components/UIComponents';
 import AnimationCarousel from './components/AnimationCarousel';
-import AnimationManager, { AnimationConfig } from './utils/AnimationManager';
-
-type SleepTimer = 15 | 30 | 60;
+import AudioSettingsCard from './components/AudioSettingsCard';
+import CrySoothingCard from './components/CrySoothingCard';
+import SleepTimerCard from './components/SleepTimerCard';
+import SoundMixerCard from './components/SoundMixerCard';
+import AnimationManager, { AnimationConfig, InvalidAnimation } from './utils/AnimationManager';
 
 
 
 export default function MainMenuScreen() {
-  const [sleepTimer, setSleepTimer] = useState<SleepTimer>(30);
-  const [whiteNoiseEnabled, setWhiteNoiseEnabled] = useState(true);
   const [animations, setAnimations] = useState<AnimationConfig[]>([]);
   const [selectedAnimationId, setSelectedAnimationId] = useState<string>('basic-shapes');
+  const [invalidAnimations, setInvalidAnimations] = useState<InvalidAnimation[]>([]);
 
 
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const savedWhiteNoise = await AsyncStorage.getItem('whiteNoiseEnabled');
-        const savedTimer = await AsyncStorage.getItem('sleepTimer');
-        // Ensure white noise playback matches saved state
-        const shouldPlayWhiteNoise = savedWhiteNoise === 'true';
-        setWhiteNoiseEnabled(shouldPlayWhiteNoise);
-        
-        // Explicitly set audio state to match the toggle
-        if (shouldPlayWhiteNoise) {
-          AudioManager.play();
-        } else {
-          AudioManager.stop();
-        }
-        if (savedTimer) {
-          setSleepTimer(parseInt(savedTimer) as SleepTimer);
-        }
+        // Ensure playback matches the parent's sound setting
+        AudioManager.syncPlayback();
 
         // Initialize animation manager
         const animationManager = AnimationManager.getInstance();
         await animationManager.initialize();
         setAnimations(animationManager.getAnimations());
+        setInvalidAnimations(animationManager.getInvalidAnimations());
         const selectedAnimation = animationManager.getSelectedAnimation();
         if (selectedAnimation) {
           setSelectedAnimationId(selectedAnimation.id);
@@ -77,62 +60,13 @@ export default function MainMenuScreen() {
     await animationManager.selectAnimation(animationId);
   };
 
-  const handleSleepTimerChange = (timer: SleepTimer) => {
-    setSleepTimer(timer);
-    AsyncStorage.setItem('sleepTimer', timer.toString());
-  };
-
-  const handleWhiteNoiseToggle = async (value: boolean) => {
-    setWhiteNoiseEnabled(value);
-    await AsyncStorage.getItem('sleepTimer').then((value) => {
-      if (value) {
-        setSleepTimer(parseInt(value) as SleepTimer);
-      }
-    }).catch((error) => {
-      console.error('Failed to get sleep timer:', error);
-    });
-    await AsyncStorage.setItem('whiteNoiseEnabled', value.toString());
-    if (value) {
-      AudioManager.play();
-    } else {
-      AudioManager.stop();
-    }
-  };
-
 
 
   const handleChangeUnlock = () => {
     router.push('/onboarding?step=setup-sequence');
   };
 
-  const renderSleepTimerSelector = () => (
-    <Card style={styles.section}>
-      <View style={styles.toggleContainer}>
-        <Text style={styles.toggleLabel}>Sleep Timer</Text>
-      </View>
-      <View style={styles.segmentedControl}>
-        {[15, 30, 60].map((timer) => (
-          <PillButton
-            key={timer}
-            title={`${timer}m`}
-            onPress={() => handleSleepTimerChange(timer as SleepTimer)}
-            active={sleepTimer === timer}
-            style={styles.timerButton}
-          />
-        ))}
-      </View>
-    </Card>
-  );
-
-  const renderWhiteNoiseToggle = () => (
-    <Card style={styles.section}>
-      <Toggle
-        value={whiteNoiseEnabled}
-        onValueChange={handleWhiteNoiseToggle}
-        label="White Noise"
-      />
-    </Card>
-  );
+  const renderSoundMixer = () => <SoundMixerCard />;
 
 
 
@@ -155,14 +89,17 @@ export default function MainMenuScreen() {
           <Text style={styles.playButtonText}>Play</Text>
         </TouchableOpacity>
 
-        {renderSleepTimerSelector()}
-        {renderWhiteNoiseToggle()}
+        <SleepTimerCard />
+        {renderSoundMixer()}
+        <AudioSettingsCard />
+        <CrySoothingCard />
         
         {/* Animation Selection Carousel */}
         <AnimationCarousel
           animations={animations}
           selectedAnimation={selectedAnimationId}
           onSelectAnimation={handleSelectAnimation}
+          invalidAnimations={invalidAnimations}
         />
 
         <View style={styles.bottomActions}>
@@ -281,16 +218,6 @@ const styles = StyleSheet.create({
     color: '#1A1A1A',
     marginBottom: 12,
   },
-  segmentedControl: {
-    flexDirection: 'row',
-    backgroundColor: designTokens.colors.lightGray,
-    borderRadius: designTokens.borderRadius.sm,
-    padding: designTokens.spacing.xs,
-    gap: designTokens.spacing.xs,
-  },
-  timerButton: {
-    flex: 1,
-  },
   downloadButton: {
     minWidth: 100,
     paddingHorizontal: designTokens.spacing.md,
@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import AudioManager from './utils/AudioManager';
+import SoundManager, { SoundConfig } from './utils/SoundManager';
+import VoiceRecorder, {
+  MAX_RECORDING_SECONDS,
+  MIN_CLIP_SECONDS,
+  RECORDINGS_FOLDER,
+  VoiceClip,
+} from './utils/VoiceRecorder';
+import { Card, PillButton, PrimaryButton, SecondaryButton } from './components/UIComponents';
+import { designTokens } from './styles/designTokens';
+
+type RecordingStep = 'ready' | 'recording' | 'recorded' | 'too-short' | 'no-microphone';
+
+export default function RecordVoiceScreen() {
+  const [step, setStep] = useState<RecordingStep>('ready');
+  const [seconds, setSeconds] = useState(0);
+  const [clip, setClip] = useState<VoiceClip | null>(null);
+  const [name, setName] = useState('');
+  const [recordings, setRecordings] = useState<SoundConfig[]>([]);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  useEffect(() => {
+    const loadRecordings = async () => {
+      await AudioManager.initialize();
+      setRecordings(SoundManager.getInstance().getLocalSounds(RECORDINGS_FOLDER));
+    };
+
+    loadRecordings();
+    return () => {
+      // Don't leave the microphone on if the parent leaves mid-recording
+      if (VoiceRecorder.isRecording()) {
+        VoiceRecorder.stop();
+      }
+      AudioManager.syncPlayback();
+    };
+  }, []);
+
+  const handleStop = () => {
+    const recorded = VoiceRecorder.stop();
+    setClip(recorded);
+    setStep(recorded ? 'recorded' : 'too-short');
+    AudioManager.syncPlayback();
+  };
+
+  const handleRecord = async () => {
+    setClip(null);
+    setSaveFailed(false);
+    setSeconds(0);
+    // The app's own sound would end up in the recording
+    await AudioManager.stopWhiteNoise();
+    const started = await VoiceRecorder.start(setSeconds, handleStop);
+    setStep(started ? 'recording' : 'no-microphone');
+  };
+
+  const handleSave = async () => {
+    if (!clip) return;
+    const sound = await VoiceRecorder.save(clip, name);
+    if (!sound) {
+      setSaveFailed(true);
+      return;
+    }
+    setRecordings(SoundManager.getInstance().getLocalSounds(RECORDINGS_FOLDER));
+    setClip(null);
+    setName('');
+    setStep('ready');
+  };
+
+  const handleDelete = async (sound: SoundConfig) => {
+    await AudioManager.removeLocalSound(sound.id);
+    setRecordings(SoundManager.getInstance().getLocalSounds(RECORDINGS_FOLDER));
+  };
+
+  const renderStatus = () => {
+    switch (step) {
+      case 'recording':
+        return (
+          <Text style={styles.timer}>
+            {Math.floor(seconds)}s of {MAX_RECORDING_SECONDS}s
+          </Text>
+        );
+      case 'too-short':
+        return (
+          <Text style={styles.warning}>
+            That was too quiet or too short. Record at least {MIN_CLIP_SECONDS} seconds of sound.
+          </Text>
+        );
+      case 'no-microphone':
+        return (
+          <Text style={styles.warning}>
+            Allow microphone access for My Calm Baby in your phone&apos;s settings to record.
+          </Text>
+        );
+      case 'recorded':
+        return (
+          <>
+            <Text style={styles.body}>
+              Got {Math.round(clip!.samples.length / clip!.sampleRate)} seconds. Silence at the
+              start and end has been trimmed and the volume evened out.
+            </Text>
+            <TextInput
+              style={styles.nameInput}
+              value={name}
+              onChangeText={setName}
+              placeholder="Name this sound"
+              placeholderTextColor={designTokens.colors.darkGray}
+              returnKeyType="done"
+            />
+            {saveFailed && (
+              <Text style={styles.warning}>The recording couldn&apos;t be saved. Try again.</Text>
+            )}
+            <PrimaryButton title="Save to the mixer" onPress={handleSave} style={styles.button} />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={designTokens.colors.charcoal} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Record your voice</Text>
+        </View>
+
+        <Card style={styles.card}>
+          <Text style={styles.body}>
+            Shush, hum or sing softly for up to {MAX_RECORDING_SECONDS} seconds, holding the phone
+            about an arm&apos;s length away. It will loop smoothly all night.
+          </Text>
+          {renderStatus()}
+          {step === 'recording' ? (
+            <SecondaryButton title="Stop" onPress={handleStop} style={styles.button} />
+          ) : (
+            <SecondaryButton
+              title={step === 'ready' ? 'Record' : 'Record again'}
+              onPress={handleRecord}
+              style={styles.button}
+            />
+          )}
+        </Card>
+
+        {recordings.length > 0 && (
+          <Card style={styles.card}>
+            <Text style={styles.label}>Your recordings</Text>
+            {recordings.map((sound) => (
+              <View key={sound.id} style={styles.recordingRow}>
+                <Text style={styles.recordingName}>{sound.name}</Text>
+                <PillButton title="Delete" onPress={() => handleDelete(sound)} />
+              </View>
+            ))}
+            <Text style={styles.hint}>Turn recordings on and off in the sound mixer.</Text>
+          </Card>
+        )}
+
+        <Text style={styles.hint}>
+          Recordings are kept only on this phone and are never uploaded or shared. Deleting one
+          removes it completely.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: designTokens.colors.aliceBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: designTokens.spacing.lg,
+    paddingBottom: designTokens.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: designTokens.spacing.lg,
+    gap: designTokens.spacing.sm,
+  },
+  backButton: {
+    padding: designTokens.spacing.xs,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  body: {
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.md,
+  },
+  timer: {
+    fontSize: designTokens.typography.sizes.lg,
+    fontWeight: designTokens.typography.weights.semibold,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.md,
+  },
+  warning: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.md,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: designTokens.colors.mediumGray,
+    borderRadius: designTokens.borderRadius.sm,
+    paddingHorizontal: designTokens.spacing.md,
+    paddingVertical: designTokens.spacing.sm,
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.md,
+  },
+  button: {
+    marginBottom: designTokens.spacing.sm,
+  },
+  recordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: designTokens.spacing.xs,
+  },
+  recordingName: {
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+  },
+});
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import AudioManager from './utils/AudioManager';
+import SoundManager, { SoundConfig } from './utils/SoundManager';
+import {
+  IMPORTED_FOLDER,
+  ImportResult,
+  MAX_IMPORT_MEGABYTES,
+  MAX_IMPORT_SECONDS,
+  importAudioFiles,
+} from './utils/SoundImporter';
+import {
+  DEFAULT_PLAYLIST_SETTINGS,
+  PlaylistRepeat,
+  PlaylistSettings,
+  PlaylistTrack,
+} from './utils/PlaylistPlayer';
+import { Card, PillButton, PrimaryButton, Slider, Toggle } from './components/UIComponents';
+import { designTokens } from './styles/designTokens';
+
+const REPEAT_LABELS: Record<PlaylistRepeat, string> = {
+  off: 'Play once',
+  all: 'Repeat all',
+  one: 'Repeat song',
+};
+
+// Gain a song starts at when added to the playlist
+const TRACK_GAIN = 0.8;
+
+export default function SoundLibraryScreen() {
+  const [sounds, setSounds] = useState<SoundConfig[]>([]);
+  const [playlist, setPlaylist] = useState<PlaylistSettings>(DEFAULT_PLAYLIST_SETTINGS);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+
+  const refreshSounds = () => {
+    setSounds(SoundManager.getInstance().getLocalSounds(IMPORTED_FOLDER));
+    setPlaylist(AudioManager.getPlaylist());
+  };
+
+  useEffect(() => {
+    const loadLibrary = async () => {
+      await AudioManager.initialize();
+      refreshSounds();
+    };
+
+    loadLibrary();
+  }, []);
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const result = await importAudioFiles();
+      if (result) {
+        setImportResult(result);
+        refreshSounds();
+      }
+    } catch (error) {
+      console.error('Failed to import audio files:', error);
+      setImportResult({
+        imported: [],
+        rejected: [{ name: 'Import', reason: 'Something went wrong. Try again.' }],
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (sound: SoundConfig) => {
+    await AudioManager.removeLocalSound(sound.id);
+    refreshSounds();
+  };
+
+  const handlePlaylistChange = (changes: Partial<PlaylistSettings>, persist: boolean = true) => {
+    setPlaylist((current) => ({ ...current, ...changes }));
+    AudioManager.setPlaylist(changes, persist);
+  };
+
+  const setTracks = (tracks: PlaylistTrack[], persist: boolean = true) => {
+    handlePlaylistChange({ tracks }, persist);
+  };
+
+  const isInPlaylist = (id: string) => playlist.tracks.some((track) => track.id === id);
+
+  const handleAddToPlaylist = (id: string) => {
+    setTracks([...playlist.tracks, { id, gain: TRACK_GAIN }]);
+  };
+
+  const handleRemoveFromPlaylist = (id: string) => {
+    setTracks(playlist.tracks.filter((track) => track.id !== id));
+  };
+
+  const handleMoveTrack = (index: number, offset: number) => {
+    const tracks = [...playlist.tracks];
+    const [track] = tracks.splice(index, 1);
+    tracks.splice(index + offset, 0, track);
+    setTracks(tracks);
+  };
+
+  const handleTrackGainChange = (id: string, gain: number, persist: boolean) => {
+    setTracks(
+      playlist.tracks.map((track) => (track.id === id ? { ...track, gain } : track)),
+      persist
+    );
+  };
+
+  const soundName = (id: string) => sounds.find((sound) => sound.id === id)?.name ?? id;
+
+  const renderImportResult = () => {
+    if (!importResult) return null;
+    const { imported, rejected } = importResult;
+    return (
+      <>
+        {imported.length > 0 && (
+          <Text style={styles.body}>
+            Added {imported.length} {imported.length === 1 ? 'sound' : 'sounds'}.
+          </Text>
+        )}
+        {rejected.map(({ name, reason }) => (
+          <Text key={name} style={styles.warning}>
+            {name}: {reason}
+          </Text>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={designTokens.colors.charcoal} />
+          </TouchableOpacity>
+          <Text style={styles.title}>Your sounds</Text>
+        </View>
+
+        <Card style={styles.card}>
+          <Text style={styles.body}>
+            Add songs and sounds from your phone, up to {MAX_IMPORT_MEGABYTES} MB and{' '}
+            {MAX_IMPORT_SECONDS / 60} minutes each. Use them on their own in the mixer, or as lullabies that play one after another.
+          </Text>
+          {renderImportResult()}
+          <PrimaryButton
+            title={importing ? 'Importing…' : 'Import audio files'}
+            onPress={handleImport}
+            disabled={importing}
+            style={styles.button}
+          />
+        </Card>
+
+        {sounds.length > 0 && (
+          <Card style={styles.card}>
+            <Text style={styles.label}>Imported sounds</Text>
+            {sounds.map((sound) => (
+              <View key={sound.id} style={styles.row}>
+                <Text style={styles.rowName} numberOfLines={1}>
+                  {sound.name}
+                </Text>
+                <PillButton
+                  title={isInPlaylist(sound.id) ? 'In lullabies' : 'Add to lullabies'}
+                  onPress={() => handleAddToPlaylist(sound.id)}
+                  disabled={isInPlaylist(sound.id)}
+                />
+                <PillButton title="Delete" onPress={() => handleDelete(sound)} />
+              </View>
+            ))}
+            <Text style={styles.hint}>Turn sounds on in the mixer to loop them all night.</Text>
+          </Card>
+        )}
+
+        {playlist.tracks.length > 0 && (
+          <Card style={styles.card}>
+            <Text style={styles.label}>Lullabies</Text>
+            {playlist.tracks.map((track, index) => (
+              <View key={track.id} style={styles.track}>
+                <View style={styles.row}>
+                  <Text style={styles.rowName} numberOfLines={1}>
+                    {soundName(track.id)}
+                  </Text>
+                  <PillButton
+                    title="Up"
+                    onPress={() => handleMoveTrack(index, -1)}
+                    disabled={index === 0}
+                  />
+                  <PillButton
+                    title="Down"
+                    onPress={() => handleMoveTrack(index, 1)}
+                    disabled={index === playlist.tracks.length - 1}
+                  />
+                  <PillButton title="Remove" onPress={() => handleRemoveFromPlaylist(track.id)} />
+                </View>
+                <Slider
+                  value={track.gain}
+                  onValueChange={(gain) => handleTrackGainChange(track.id, gain, false)}
+                  onSlidingComplete={(gain) => handleTrackGainChange(track.id, gain, true)}
+                  minimumLabel="Quieter"
+                  maximumLabel="Louder"
+                />
+              </View>
+            ))}
+
+            <Toggle
+              label="Shuffle"
+              value={playlist.shuffle}
+              onValueChange={(shuffle) => handlePlaylistChange({ shuffle })}
+            />
+            <View style={styles.segmentedControl}>
+              {(Object.keys(REPEAT_LABELS) as PlaylistRepeat[]).map((repeat) => (
+                <PillButton
+                  key={repeat}
+                  title={REPEAT_LABELS[repeat]}
+                  onPress={() => handlePlaylistChange({ repeat })}
+                  active={playlist.repeat === repeat}
+                  style={styles.segmentButton}
+                />
+              ))}
+            </View>
+            <Text style={styles.hint}>Turn on Lullabies in the mixer to play them.</Text>
+          </Card>
+        )}
+
+        <Text style={styles.hint}>
+          Imported files are copied into the app and kept only on this phone. Deleting one here
+          doesn&apos;t touch the original.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: designTokens.colors.aliceBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: designTokens.spacing.lg,
+    paddingBottom: designTokens.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: designTokens.spacing.lg,
+    gap: designTokens.spacing.sm,
+  },
+  backButton: {
+    padding: designTokens.spacing.xs,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  card: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    color: designTokens.colors.charcoal,
+    fontWeight: '500',
+    paddingVertical: designTokens.spacing.sm,
+  },
+  body: {
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+    marginBottom: designTokens.spacing.md,
+  },
+  warning: {
+    fontSize: designTokens.typography.sizes.sm,
+    color: designTokens.colors.error,
+    marginBottom: designTokens.spacing.sm,
+  },
+  button: {
+    marginBottom: designTokens.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: designTokens.spacing.xs,
+    paddingVertical: designTokens.spacing.xs,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: designTokens.typography.sizes.base,
+    color: designTokens.colors.charcoal,
+  },
+  track: {
+    borderBottomWidth: 1,
+    borderBottomColor: designTokens.colors.lightGray,
+    paddingBottom: designTokens.spacing.sm,
+    marginBottom: designTokens.spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: designTokens.colors.lightGray,
+    borderRadius: designTokens.borderRadius.sm,
+    padding: designTokens.spacing.xs,
+    gap: designTokens.spacing.xs,
+    marginVertical: designTokens.spacing.sm,
+  },
+  segmentButton: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: designTokens.typography.sizes.xs,
+    color: designTokens.colors.darkGray,
+  },
+});
@@ -1,4 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LayerId } from './SoundscapeMixer';
+import { NoiseColor, isNoiseColor } from './NoiseSynthesis';
+import { getRegisteredAnimations } from './AnimationRegistry';
+import type { CalmPalette } from './CalmAnimation';
 
 export interface AnimationConfig {
   id: string;
@@ -10,110 +14,428 @@ export interface AnimationConfig {
   elements?: AnimationElement[];
   // Path to the animation code file (will be dynamically imported)
   animationCodePath?: string;
+  // Sound the animation starts with, unless the parent keeps their own
+  soundscape?: AnimationSoundscape;
+  // Play a Lottie file from the folder instead of drawing shapes
+  lottie?: AnimationLottie;
+  // The Lottie file itself, loaded from lottie.file
+  lottieSource?: any;
+  // Colours to draw with instead of the default palette
+  palette?: Partial<CalmPalette>;
 }
 
+/**
+ * First and last frame of a stretch of a Lottie file
+ */
+export type LottieSegment = [number, number];
+
+/**
+ * How to play a Lottie file exported from After Effects. The loop plays
+ * until the baby taps; each tap plays the next tap segment once, then the
+ * loop picks up again.
+ */
+export interface AnimationLottie {
+  // Name of the Lottie file in the animation's folder, e.g. "moon.json"
+  file: string;
+  // Playback speed, 1 being the speed it was exported at
+  speed?: number;
+  // Frames that repeat while nothing is touched; the whole file if left out
+  loop?: LottieSegment;
+  // Frames played in turn, one per tap
+  tapSegments?: LottieSegment[];
+}
+
+/**
+ * The mix an animation sounds best with. Only the listed mixer layers are
+ * heard; every other layer is muted.
+ */
+export interface AnimationSoundscape {
+  sources: { id: LayerId; volume: number }[];
+  noiseColor?: NoiseColor;
+}
+
+export type AnimationElementType = 'circle' | 'square' | 'triangle' | 'custom';
+
+export const ANIMATION_ELEMENT_TYPES: AnimationElementType[] = [
+  'circle',
+  'square',
+  'triangle',
+  'custom',
+];
+
+export type AnimationFlag = 'rotate' | 'scale' | 'opacity' | 'translateX' | 'translateY';
+
+export const ANIMATION_FLAGS: AnimationFlag[] = [
+  'rotate',
+  'scale',
+  'opacity',
+  'translateX',
+  'translateY',
+];
+
 export interface AnimationElement {
-  type: 'circle' | 'square' | 'triangle' | 'custom';
+  type: AnimationElementType;
   properties: {
+    // Width and height in pixels
     size: number;
+    // Hex color, e.g. #3B82F6
     color: string;
+    // Where the element starts, as a fraction of the screen's width and
+    // height from the top left: { x: 0.5, y: 0.5 } is the middle
     position?: { x: number; y: number };
-    animations?: {
-      rotate?: boolean;
-      scale?: boolean;
-      opacity?: boolean;
-      translateX?: boolean;
-      translateY?: boolean;
-    };
+    animations?: Partial<Record<AnimationFlag, boolean>>;
     [key: string]: any;
   };
+  // How the element moves, for animations drawn from animation.json alone
+  timeline?: AnimationTimeline;
 }
 
+export type KeyframeEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'sine';
+
+export const KEYFRAME_EASINGS: KeyframeEasing[] = [
+  'linear',
+  'easeIn',
+  'easeOut',
+  'easeInOut',
+  'sine',
+];
+
+export type KeyframeProperty = 'opacity' | 'scale' | 'rotate' | 'x' | 'y';
+
+export const KEYFRAME_PROPERTIES: KeyframeProperty[] = ['opacity', 'scale', 'rotate', 'x', 'y'];
+
 /**
- * List of all available animation folders in the project
- * This serves both as the source of truth for animation discovery and as fallback
+ * The element's look at one point in its timeline. Properties left out are
+ * carried over from the keyframes either side.
  */
-const ANIMATION_FOLDERS = [
-  'basic-shapes',
-  'space-journey',
-  'bursting-bubbles',
-];
+export interface Keyframe {
+  // Point in the timeline, from 0 (start) to 1 (end)
+  at: number;
+  opacity?: number;
+  scale?: number;
+  // Degrees clockwise
+  rotate?: number;
+  // Offset from the element's position, as a fraction of the screen
+  x?: number;
+  y?: number;
+  // Easing from this keyframe to the next, instead of the timeline's
+  easing?: KeyframeEasing;
+}
 
-// Fallback animations in case dynamic loading fails
-const FALLBACK_ANIMATIONS: AnimationConfig[] = [
-  {
-    id: 'basic-shapes',
-    name: 'Basic Shapes',
-    description: 'Simple geometric shapes with soothing animations',
-    folder: 'basic-shapes',
-    thumbnail: require('../animations/basic-shapes/thumbnail.png'),
-  },
-
-  {
-    id: 'space-journey',
-    name: 'Space Journey',
-    description: 'Explore the cosmos with soothing space-themed animations',
-    folder: 'space-journey',
-    thumbnail: undefined,
-  },
-];
+/**
+ * One run through an element's keyframes and path
+ */
+export interface AnimationTimeline {
+  // Length of one run in milliseconds
+  duration: number;
+  // Wait before the first run, in milliseconds
+  delay?: number;
+  // true repeats forever, a number repeats that many times; runs once if left out
+  loop?: boolean | number;
+  // Play every other run backwards, so loops flow instead of jumping back
+  alternate?: boolean;
+  // Easing between keyframes that don't set their own
+  easing?: KeyframeEasing;
+  keyframes?: Keyframe[];
+  // Points the element travels through at an even speed, as fractions of
+  // the screen; the first point replaces the element's position
+  path?: { x: number; y: number }[];
+}
 
-class AnimationManager {
-  private animations: AnimationConfig[] = [];
-  private selectedAnimationId: string = 'basic-shapes';
-  private static instance: AnimationManager;
+/**
+ * An animation folder that couldn't be loaded, and why
+ */
+export interface InvalidAnimation {
+  folder: string;
+  errors: string[];
+}
 
-  private constructor() {
-    // Private constructor for singleton pattern
+// #RGB, #RRGGBB or #RRGGBBAA
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const isFraction = (value: unknown): boolean =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Check one entry of an animation.json's `elements` for problems
+ * @param path Where the element is in the file, for the messages
+ */
+function validateAnimationElement(element: any, path: string): string[] {
+  if (!element || typeof element !== 'object') {
+    return [`"${path}" must be an object`];
+  }
+  const errors: string[] = [];
+  if (!ANIMATION_ELEMENT_TYPES.includes(element.type)) {
+    errors.push(`"${path}.type" must be one of ${ANIMATION_ELEMENT_TYPES.join(', ')}`);
   }
 
-  /**
-   * Load animation configuration from a specific folder
-   * @param folder The animation folder name
-   * @returns The animation configuration object or null if not found
-   */
-  private loadAnimationConfig(folder: string): AnimationConfig | null {
-    try {
-      switch (folder) {
-        case 'basic-shapes':
-          return require('../animations/basic-shapes/animation.json');
-
-        case 'space-journey':
-          return require('../animations/space-journey/animation.json');
-        case 'bursting-bubbles':
-          return require('../animations/bursting-bubbles/animation.json');
-        default:
-          return null;
+  const properties = element.properties;
+  if (!properties || typeof properties !== 'object') {
+    errors.push(`"${path}.properties" must be an object`);
+    return errors;
+  }
+  if (typeof properties.size !== 'number' || properties.size <= 0) {
+    errors.push(`"${path}.properties.size" must be a number of pixels greater than 0`);
+  }
+  if (typeof properties.color !== 'string' || !HEX_COLOR.test(properties.color)) {
+    errors.push(`"${path}.properties.color" must be a hex color like #3B82F6`);
+  }
+  if (properties.position !== undefined) {
+    const { x, y } = properties.position ?? {};
+    if (!isFraction(x) || !isFraction(y)) {
+      errors.push(
+        `"${path}.properties.position" must be { "x", "y" } fractions of the screen from 0 to 1, ` +
+          'not pixels'
+      );
+    }
+  }
+  if (properties.animations !== undefined) {
+    const { animations } = properties;
+    if (!animations || typeof animations !== 'object') {
+      errors.push(`"${path}.properties.animations" must be an object`);
+    } else {
+      for (const [flag, value] of Object.entries(animations)) {
+        if (!ANIMATION_FLAGS.includes(flag as AnimationFlag)) {
+          errors.push(
+            `"${path}.properties.animations.${flag}" is not an animation; ` +
+              `use ${ANIMATION_FLAGS.join(', ')}`
+          );
+        } else if (typeof value !== 'boolean') {
+          errors.push(`"${path}.properties.animations.${flag}" must be true or false`);
+        }
       }
-    } catch (error) {
-      console.error(`Error loading animation config for ${folder}:`, error);
-      return null;
     }
   }
+  if (element.timeline !== undefined) {
+    if (element.type === 'custom') {
+      errors.push(`"${path}.type" custom elements need their own animation.tsx to move`);
+    }
+    errors.push(...validateTimeline(element.timeline, `${path}.timeline`));
+  }
+  return errors;
+}
 
-  /**
-   * Load animation thumbnail from a specific folder
-   * @param folder The animation folder name
-   * @returns The thumbnail image or undefined if not found
-   */
-  private loadAnimationThumbnail(folder: string): any {
-    try {
-      switch (folder) {
-        case 'basic-shapes':
-          return require('../animations/basic-shapes/thumbnail.png');
-
-        case 'space-journey':
-          return require('../animations/space-journey/thumbnail.png');
-        case 'bursting-bubbles':
-          return require('../animations/bursting-bubbles/thumbnail.png');
-        default:
-          return undefined;
-      }
-    } catch (error) {
-      console.error(`Error loading thumbnail for ${folder}:`, error);
-      return undefined;
+/**
+ * Check an element's timeline for problems
+ * @param path Where the timeline is in the file, for the messages
+ */
+function validateTimeline(timeline: any, path: string): string[] {
+  if (!timeline || typeof timeline !== 'object') {
+    return [`"${path}" must be an object`];
+  }
+  const errors: string[] = [];
+  if (typeof timeline.duration !== 'number' || timeline.duration <= 0) {
+    errors.push(`"${path}.duration" must be a number of milliseconds greater than 0`);
+  }
+  if (timeline.delay !== undefined && (typeof timeline.delay !== 'number' || timeline.delay < 0)) {
+    errors.push(`"${path}.delay" must be a number of milliseconds, 0 or more`);
+  }
+  const { loop } = timeline;
+  if (
+    loop !== undefined &&
+    typeof loop !== 'boolean' &&
+    !(typeof loop === 'number' && Number.isInteger(loop) && loop > 0)
+  ) {
+    errors.push(`"${path}.loop" must be true, false or a number of runs`);
+  }
+  if (timeline.alternate !== undefined && typeof timeline.alternate !== 'boolean') {
+    errors.push(`"${path}.alternate" must be true or false`);
+  }
+  if (timeline.easing !== undefined && !KEYFRAME_EASINGS.includes(timeline.easing)) {
+    errors.push(`"${path}.easing" must be one of ${KEYFRAME_EASINGS.join(', ')}`);
+  }
+
+  const { keyframes, path: points } = timeline;
+  if (keyframes === undefined && points === undefined) {
+    errors.push(`"${path}" needs "keyframes", a "path" or both`);
+  }
+  if (keyframes !== undefined) {
+    if (!Array.isArray(keyframes) || keyframes.length < 2) {
+      errors.push(`"${path}.keyframes" must be a list of at least 2 keyframes`);
+    } else {
+      let previousAt = -1;
+      keyframes.forEach((keyframe: any, index: number) => {
+        const at = `${path}.keyframes[${index}]`;
+        if (!keyframe || typeof keyframe !== 'object') {
+          errors.push(`"${at}" must be an object`);
+          return;
+        }
+        if (!isFraction(keyframe.at) || keyframe.at <= previousAt) {
+          errors.push(`"${at}.at" must be from 0 to 1 and after the keyframe before it`);
+        }
+        previousAt = keyframe.at;
+        for (const [key, value] of Object.entries(keyframe)) {
+          if (key === 'at') continue;
+          if (key === 'easing') {
+            if (!KEYFRAME_EASINGS.includes(value as KeyframeEasing)) {
+              errors.push(`"${at}.easing" must be one of ${KEYFRAME_EASINGS.join(', ')}`);
+            }
+          } else if (!KEYFRAME_PROPERTIES.includes(key as KeyframeProperty)) {
+            errors.push(`"${at}.${key}" can't be animated; use ${KEYFRAME_PROPERTIES.join(', ')}`);
+          } else if (typeof value !== 'number') {
+            errors.push(`"${at}.${key}" must be a number`);
+          } else if (key === 'opacity' && !isFraction(value)) {
+            errors.push(`"${at}.opacity" must be from 0 to 1`);
+          } else if (points !== undefined && (key === 'x' || key === 'y')) {
+            errors.push(`"${at}.${key}" can't be used with a "path", which sets the position`);
+          }
+        }
+      });
     }
   }
+  if (points !== undefined) {
+    if (
+      !Array.isArray(points) ||
+      points.length < 2 ||
+      !points.every((point: any) => isFraction(point?.x) && isFraction(point?.y))
+    ) {
+      errors.push(
+        `"${path}.path" must be a list of at least 2 { "x", "y" } fractions of the screen`
+      );
+    }
+  }
+  return errors;
+}
+
+const isLottieSegment = (value: unknown): value is LottieSegment =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((frame) => typeof frame === 'number' && frame >= 0) &&
+  value[0] < value[1];
+
+/**
+ * Check an animation.json's `lottie` block for problems
+ */
+function validateLottie(lottie: any): string[] {
+  if (!lottie || typeof lottie !== 'object') {
+    return ['"lottie" must be an object'];
+  }
+  const errors: string[] = [];
+  if (typeof lottie.file !== 'string' || !lottie.file.endsWith('.json')) {
+    errors.push('"lottie.file" must be the name of a .json file in the folder');
+  } else if (lottie.file === 'animation.json') {
+    errors.push('"lottie.file" must be a different file from animation.json');
+  }
+  if (lottie.speed !== undefined && (typeof lottie.speed !== 'number' || lottie.speed <= 0)) {
+    errors.push('"lottie.speed" must be a number greater than 0');
+  }
+  if (lottie.loop !== undefined && !isLottieSegment(lottie.loop)) {
+    errors.push('"lottie.loop" must be [first frame, last frame]');
+  }
+  if (lottie.tapSegments !== undefined) {
+    if (!Array.isArray(lottie.tapSegments)) {
+      errors.push('"lottie.tapSegments" must be a list of [first frame, last frame]');
+    } else {
+      lottie.tapSegments.forEach((segment: any, index: number) => {
+        if (!isLottieSegment(segment)) {
+          errors.push(`"lottie.tapSegments[${index}]" must be [first frame, last frame]`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check the segments of a valid `lottie` block fit the file it names
+ * @param source The parsed Lottie file, or undefined if it isn't in the folder
+ */
+function validateLottieFile(lottie: AnimationLottie, source: any): string[] {
+  if (!source) {
+    return [`"lottie.file" ${lottie.file} is not in the folder`];
+  }
+  if (typeof source.ip !== 'number' || typeof source.op !== 'number' || !source.layers) {
+    return [`${lottie.file} is not a Lottie file`];
+  }
+  const segments: [string, LottieSegment][] = [];
+  if (lottie.loop) {
+    segments.push(['lottie.loop', lottie.loop]);
+  }
+  lottie.tapSegments?.forEach((segment, index) => {
+    segments.push([`lottie.tapSegments[${index}]`, segment]);
+  });
+  return segments
+    .filter(([, [first, last]]) => first < source.ip || last > source.op)
+    .map(([path]) => `"${path}" must be within frames ${source.ip} to ${source.op} of the file`);
+}
+
+/**
+ * Check a parsed animation.json for problems
+ * @returns A list of human-readable problems, empty if the config is valid
+ */
+export function validateAnimationConfig(config: any): string[] {
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object') {
+    return ['animation.json is empty or not an object'];
+  }
+  if (typeof config.id !== 'string' || !config.id) {
+    errors.push('"id" must be a non-empty string');
+  }
+  if (typeof config.name !== 'string' || !config.name) {
+    errors.push('"name" must be a non-empty string');
+  }
+  if (typeof config.description !== 'string') {
+    errors.push('"description" must be a string');
+  }
+  if (config.elements !== undefined) {
+    if (!Array.isArray(config.elements)) {
+      errors.push('"elements" must be a list');
+    } else {
+      config.elements.forEach((element: any, index: number) => {
+        errors.push(...validateAnimationElement(element, `elements[${index}]`));
+      });
+    }
+  }
+  if (config.soundscape !== undefined) {
+    const { sources, noiseColor } = config.soundscape ?? {};
+    if (!Array.isArray(sources)) {
+      errors.push('"soundscape.sources" must be a list of { "id", "volume" }');
+    } else {
+      sources.forEach((source: any, index: number) => {
+        if (typeof source?.id !== 'string' || !source.id) {
+          errors.push(`"soundscape.sources[${index}].id" must be a mixer layer id`);
+        }
+        if (!isFraction(source?.volume)) {
+          errors.push(`"soundscape.sources[${index}].volume" must be a number between 0 and 1`);
+        }
+      });
+    }
+    if (noiseColor !== undefined && !isNoiseColor(noiseColor)) {
+      errors.push('"soundscape.noiseColor" must be white, pink or brown');
+    }
+  }
+  if (config.lottie !== undefined) {
+    errors.push(...validateLottie(config.lottie));
+  }
+  if (config.palette !== undefined) {
+    const { background, foreground, accents } = config.palette ?? {};
+    const isColor = (color: unknown) => typeof color === 'string' && HEX_COLOR.test(color);
+    if (background !== undefined && !isColor(background)) {
+      errors.push('"palette.background" must be a hex color like #3B82F6');
+    }
+    if (foreground !== undefined && !isColor(foreground)) {
+      errors.push('"palette.foreground" must be a hex color like #3B82F6');
+    }
+    if (
+      accents !== undefined &&
+      (!Array.isArray(accents) || accents.length === 0 || !accents.every(isColor))
+    ) {
+      errors.push('"palette.accents" must be a list of hex colors like #3B82F6');
+    }
+  }
+  return errors;
+}
+
+class AnimationManager {
+  private animations: AnimationConfig[] = [];
+  private invalidAnimations: InvalidAnimation[] = [];
+  private selectedAnimationId: string = 'basic-shapes';
+  private static instance: AnimationManager;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
 
   public static getInstance(): AnimationManager {
     if (!AnimationManager.instance) {
@@ -124,7 +446,7 @@ class AnimationManager {
 
   public async initialize(): Promise<void> {
     try {
-      // Scan for animations in the file system
+      // Pick up every animation folder
       await this.scanForAnimations();
 
       // Load selected animation from storage
@@ -144,6 +466,13 @@ class AnimationManager {
     return this.animations;
   }
 
+  /**
+   * Get the animation folders that were skipped because of mistakes in them
+   */
+  public getInvalidAnimations(): InvalidAnimation[] {
+    return this.invalidAnimations;
+  }
+
   public getSelectedAnimation(): AnimationConfig | undefined {
     return this.animations.find((anim) => anim.id === this.selectedAnimationId);
   }
@@ -151,111 +480,55 @@ class AnimationManager {
   public async selectAnimation(animationId: string): Promise<void> {
     try {
       const animation = this.animations.find((anim) => anim.id === animationId);
-      if (animation) {
-        this.selectedAnimationId = animationId;
-        await AsyncStorage.setItem('selectedAnimation', animationId);
+      if (!animation) {
+        console.error(`No animation has the id ${animationId}`);
+        return;
       }
+      this.selectedAnimationId = animationId;
+      await AsyncStorage.setItem('selectedAnimation', animationId);
     } catch (error) {
       console.error('Failed to select animation:', error);
     }
   }
 
   /**
-   * Validate animation folders by checking for valid animation.json files
-   * @returns Array of valid animation folder names
-   */
-  private async validateAnimationFolders(): Promise<string[]> {
-    try {
-      const validFolders: string[] = [];
-
-      // Validate each folder by checking if it has a valid animation.json
-      for (const folder of ANIMATION_FOLDERS) {
-        try {
-          // We need to use require here because dynamic imports aren't supported in this context
-          // We can't use import() because it's asynchronous and would complicate the code
-          const animationConfig = this.loadAnimationConfig(folder);
-          if (animationConfig && animationConfig.id) {
-            validFolders.push(folder);
-          }
-        } catch {
-          // Intentionally empty catch block - we just want to skip invalid folders
-          console.log(
-            `Folder ${folder} does not contain a valid animation.json file`
-          );
-        }
-      }
-
-      console.log(
-        `Found ${validFolders.length} valid animation folders:`,
-        validFolders
-      );
-      return validFolders;
-    } catch (error) {
-      console.error('Error validating animation folders:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Scan for available animations and load their configurations
+   * Load the configuration of every animation folder in the app, skipping
+   * any folder with a mistake in it
    */
   private async scanForAnimations(): Promise<void> {
-    try {
-      // Clear existing animations
-      this.animations = [];
+    this.animations = [];
+    this.invalidAnimations = [];
 
-      // Get valid animation folders
-      const validFolders = await this.validateAnimationFolders();
-
-      if (validFolders.length === 0) {
-        console.warn(
-          'No valid animation folders found, using fallback animations'
-        );
-        this.animations = [...FALLBACK_ANIMATIONS];
-        return;
+    for (const registered of getRegisteredAnimations()) {
+      const { folder, config, hasCode, component, thumbnail, files } = registered;
+      const errors = config ? validateAnimationConfig(config) : ['animation.json is missing'];
+      if (hasCode && !component) {
+        errors.push('animation.tsx must default-export the animation component');
       }
-
-      // Load animation configurations from valid folders
-      for (const folder of validFolders) {
-        try {
-          const config = this.loadAnimationConfig(folder);
-          if (config) {
-            // Load thumbnail
-            const thumbnail = this.loadAnimationThumbnail(folder);
-
-            // Create animation config object
-            const animationConfig: AnimationConfig = {
-              ...config,
-              thumbnail,
-            };
-
-            this.animations.push(animationConfig);
-            console.log(
-              `Loaded animation: ${animationConfig.name} (${animationConfig.id})`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `Error loading animation from folder ${folder}:`,
-            error
-          );
-        }
+      const lottieSource = config?.lottie?.file ? files[config.lottie.file] : undefined;
+      if (config?.lottie && errors.length === 0) {
+        errors.push(...validateLottieFile(config.lottie, lottieSource));
       }
-
-      // If no animations were loaded, use fallback animations
-      if (this.animations.length === 0) {
-        console.warn(
-          'Failed to load any animations, using fallback animations'
+      const hasTimeline = config?.elements?.some?.((element: any) => element?.timeline);
+      if (!hasCode && !hasTimeline && !config?.lottie) {
+        errors.push(
+          'animation.tsx is missing, and there is no "lottie" file or element "timeline" to draw from'
         );
-        this.animations = [...FALLBACK_ANIMATIONS];
+      }
+      const existing = config && this.animations.find((animation) => animation.id === config.id);
+      if (existing) {
+        errors.push(`"id" ${config.id} is already used by ${existing.folder}`);
+      }
+      if (errors.length > 0) {
+        console.warn(`Skipping animation folder ${folder}:\n  ${errors.join('\n  ')}`);
+        this.invalidAnimations.push({ folder, errors });
+        continue;
       }
 
-      console.log(`Total animations loaded: ${this.animations.length}`);
-    } catch (error) {
-      console.error('Error scanning for animations:', error);
-      // Use fallback animations in case of error
-      this.animations = [...FALLBACK_ANIMATIONS];
+      this.animations.push({ ...config, folder, thumbnail, lottieSource });
     }
+
+    console.log(`Total animations loaded: ${this.animations.length}`);
   }
 }
 
@@ -0,0 +1,94 @@
+/// <reference types="expo/types" />
+import type { ComponentType } from 'react';
+import KeyframeAnimation from '../components/KeyframeAnimation';
+import LottieAnimation from '../components/LottieAnimation';
+import { CalmAnimationProps, withCalmAnimationCheck } from './CalmAnimation';
+
+/**
+ * Everything one animation folder provides, as found. AnimationManager
+ * checks it before the animation is offered to the parent.
+ */
+export interface RegisteredAnimation {
+  folder: string;
+  // The parsed animation.json, or undefined if the folder has none
+  config?: any;
+  // Whether the folder has an animation.tsx; without one the animation is
+  // played from its Lottie file or drawn from the timelines in animation.json
+  hasCode: boolean;
+  // The default export of animation.tsx, or the Lottie or keyframe renderer
+  component?: ComponentType<CalmAnimationProps>;
+  thumbnail?: any;
+  // Every other .json file in the folder by name, such as a Lottie file
+  files: Record<string, any>;
+}
+
+/**
+ * Every animation folder's files, found by Metro when the app is bundled.
+ * A folder under app/animations with an animation.json, and an animation.tsx
+ * unless it is made only of keyframes or a Lottie file, is registered on its
+ * own; nothing else needs editing to add one.
+ */
+const animationFiles = require.context(
+  '../animations',
+  true,
+  /\/[^/]+\/([^/]+\.json|animation\.tsx|thumbnail\.png)$/
+);
+
+let registry: RegisteredAnimation[] | null = null;
+
+function buildRegistry(): RegisteredAnimation[] {
+  const folders = new Map<string, RegisteredAnimation>();
+  for (const key of animationFiles.keys()) {
+    const [folder, file] = key.split('/').slice(-2);
+    const animation: RegisteredAnimation = folders.get(folder) ?? {
+      folder,
+      hasCode: false,
+      files: {},
+    };
+    if (file === 'animation.json') {
+      animation.config = animationFiles(key);
+    } else if (file === 'animation.tsx') {
+      animation.hasCode = true;
+      animation.component = animationFiles(key).default;
+    } else if (file === 'thumbnail.png') {
+      animation.thumbnail = animationFiles(key);
+    } else {
+      animation.files[file] = animationFiles(key);
+    }
+    folders.set(folder, animation);
+  }
+  for (const animation of folders.values()) {
+    if (!animation.hasCode) {
+      animation.component = animation.config?.lottie ? LottieAnimation : KeyframeAnimation;
+    }
+    if (animation.component) {
+      animation.component = withCalmAnimationCheck(animation.component, animation.folder);
+    }
+  }
+  return Array.from(folders.values());
+}
+
+/**
+ * Get every animation folder in the app, in folder order
+ */
+export function getRegisteredAnimations(): RegisteredAnimation[] {
+  if (!registry) {
+    registry = buildRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Get the component that draws an animation
+ * @returns The component, or undefined if no animation has that id
+ */
+export function getAnimationComponent(
+  id: string
+): ComponentType<CalmAnimationProps> | undefined {
+  return getRegisteredAnimations().find(({ config }) => config?.id === id)?.component;
+}
+
+export default {
+  getRegisteredAnimations,
+  getAnimationComponent,
+};
@@ -0,0 +1,134 @@
+import AudioEngine from './AudioEngine';
+import HeartbeatGenerator from './HeartbeatGenerator';
+import RhythmClock from './RhythmClock';
+import SoundscapeMixer, { LayerId } from './SoundscapeMixer';
+
+// How often a new reading is published; fast enough to follow a heartbeat,
+// slow enough to cost next to nothing on the JS thread
+export const ANALYSIS_INTERVAL_MS = 50;
+// RMS of a sound at the reference loudness, which reads as a level of 1
+const FULL_LEVEL_RMS = 0.125;
+// Time constants for the level rising and falling, so it swells with a sound
+// but doesn't flicker on every wave
+const ATTACK_SECONDS = 0.05;
+const RELEASE_SECONDS = 0.3;
+
+/**
+ * One reading of what is playing, for animations that follow the sound
+ */
+export interface AudioAnalysis {
+  // Smoothed loudness of the mix, from 0 (silent) to 1 (at the reference loudness or above)
+  level: number;
+  // Gentle swell from 0 to 1 that peaks on each heartbeat, or on each shush
+  // pulse when there is no heartbeat; 0 when neither is playing
+  pulse: number;
+  // Position in the shush pulse (loudest at 0.25), or null while the rhythm is off
+  rhythmPhase: number | null;
+  // Position between heartbeats (the thump is at 0), or null while there is no heartbeat
+  heartbeatPhase: number | null;
+  // Mixer layers sounding right now
+  sources: LayerId[];
+}
+
+type AnalysisListener = (analysis: AudioAnalysis) => void;
+
+/**
+ * AudioAnalyzer follows the mix while anything is listening: its envelope,
+ * where the shush rhythm and the heartbeat are, what is playing, and a
+ * single pulse that animations can breathe with.
+ *
+ * The analyser is only in the audio bus and the timer only runs while there
+ * are listeners, so animations that don't follow the sound cost nothing.
+ */
+class AudioAnalyzer {
+  private static instance: AudioAnalyzer;
+  private listeners: Set<AnalysisListener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private samples: Float32Array | null = null;
+  private level: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): AudioAnalyzer {
+    if (!AudioAnalyzer.instance) {
+      AudioAnalyzer.instance = new AudioAnalyzer();
+    }
+    return AudioAnalyzer.instance;
+  }
+
+  /**
+   * Receive a reading every ANALYSIS_INTERVAL_MS
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: AnalysisListener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => this.publish(), ANALYSIS_INTERVAL_MS);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    AudioEngine.releaseAnalyser();
+    this.samples = null;
+    this.level = 0;
+  }
+
+  private publish(): void {
+    const analysis = this.analyze();
+    this.listeners.forEach((listener) => listener(analysis));
+  }
+
+  private analyze(): AudioAnalysis {
+    const target = Math.min(1, this.measureRms() / FULL_LEVEL_RMS);
+    const seconds = ANALYSIS_INTERVAL_MS / 1000;
+    const timeConstant = target > this.level ? ATTACK_SECONDS : RELEASE_SECONDS;
+    this.level += (target - this.level) * (1 - Math.exp(-seconds / timeConstant));
+
+    const rhythmPhase = RhythmClock.getSettings().enabled ? RhythmClock.getPhase() : null;
+    const heartbeatPhase = HeartbeatGenerator.getBeatPhase();
+    let pulse = 0;
+    if (heartbeatPhase !== null) {
+      pulse = 0.5 + 0.5 * Math.cos(2 * Math.PI * heartbeatPhase);
+    } else if (rhythmPhase !== null) {
+      pulse = 0.5 + 0.5 * Math.sin(2 * Math.PI * rhythmPhase);
+    }
+    const sources = SoundscapeMixer.isCurrentlyPlaying()
+      ? SoundscapeMixer.getLayers()
+          .filter((layer) => !layer.muted && layer.volume > 0)
+          .map((layer) => layer.id)
+      : [];
+    return { level: this.level, pulse, rhythmPhase, heartbeatPhase, sources };
+  }
+
+  /**
+   * RMS of the latest block of the mix, or 0 while audio isn't running
+   */
+  private measureRms(): number {
+    // A suspended context leaves its last block in the analyser
+    if (AudioEngine.getContext()?.state !== 'running') return 0;
+    const analyser = AudioEngine.getAnalyser();
+    if (!analyser) return 0;
+    if (!this.samples || this.samples.length !== analyser.fftSize) {
+      this.samples = new Float32Array(analyser.fftSize);
+    }
+    analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sum += this.samples[i] * this.samples[i];
+    }
+    return Math.sqrt(sum / this.samples.length);
+  }
+}
+
+const audioAnalyzer = AudioAnalyzer.getInstance();
+export default audioAnalyzer;
@@ -0,0 +1,361 @@
+/**
+ * Sample-level helpers shared by the generators and sample players.
+ * Everything here works on plain Float32Arrays so it stays independent of
+ * the audio context.
+ */
+
+/**
+ * Mean of the squared samples: the block's power, 1 for a full-scale square wave
+ */
+export function meanSquare(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? sum / samples.length : 0;
+}
+
+/**
+ * Fold the last `crossfadeLength` samples of `samples` into its start with an
+ * equal-power crossfade and return the seamless loop without them.
+ *
+ * Sample `loopLength` continues sample `loopLength - 1`, so blending it into
+ * sample 0 makes the wrap-around point continuous.
+ */
+export function makeSeamlessLoop(
+  samples: Float32Array,
+  crossfadeLength: number
+): Float32Array {
+  const loopLength = samples.length - crossfadeLength;
+  const loop = samples.slice(0, loopLength);
+
+  for (let i = 0; i < crossfadeLength; i++) {
+    const theta = (i / crossfadeLength) * (Math.PI / 2);
+    loop[i] = samples[i] * Math.sin(theta) + samples[loopLength + i] * Math.cos(theta);
+  }
+  return loop;
+}
+
+/**
+ * Cut the section between two loop points out of a recording so it repeats
+ * without a click.
+ *
+ * Audio just after `endSample` is crossfaded into the start of the loop, so
+ * the loop keeps its full declared length. When the recording has no audio
+ * after the loop end, the end of the loop itself is used and the loop is
+ * `crossfadeLength` samples shorter.
+ */
+export function extractSeamlessLoop(
+  channel: Float32Array,
+  startSample: number,
+  endSample: number,
+  crossfadeLength: number
+): Float32Array {
+  const start = Math.max(0, Math.min(startSample, channel.length));
+  const end = Math.max(start, Math.min(endSample, channel.length));
+  const fade = Math.min(crossfadeLength, Math.floor((end - start) / 2));
+  if (fade <= 0) {
+    return channel.slice(start, end);
+  }
+
+  if (channel.length - end >= fade) {
+    return makeSeamlessLoop(channel.subarray(start, end + fade), fade);
+  }
+  return makeSeamlessLoop(channel.subarray(start, end), fade);
+}
+
+// Length of the windows used to follow a recording's level, in seconds
+const LEVEL_WINDOW_SECONDS = 0.02;
+
+function levelDb(meanSquareValue: number): number {
+  return 10 * Math.log10(Math.max(meanSquareValue, 1e-10));
+}
+
+/**
+ * Cut leading and trailing silence from a recording. Silence is anything
+ * more than `relativeThresholdDb` below the loudest part, so it works
+ * whatever the microphone's sensitivity.
+ *
+ * @param paddingSeconds Quiet kept before the first and after the last sound
+ * so the clip doesn't start or stop abruptly
+ */
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  relativeThresholdDb: number = 35,
+  paddingSeconds: number = 0.1
+): Float32Array {
+  const windowLength = Math.max(1, Math.round(LEVEL_WINDOW_SECONDS * sampleRate));
+  const windowCount = Math.floor(samples.length / windowLength);
+  const levels: number[] = [];
+  for (let i = 0; i < windowCount; i++) {
+    levels.push(levelDb(meanSquare(samples.subarray(i * windowLength, (i + 1) * windowLength))));
+  }
+  if (levels.length === 0) return samples.slice();
+
+  const threshold = Math.max(...levels) - relativeThresholdDb;
+  const first = levels.findIndex((level) => level >= threshold);
+  let last = first;
+  for (let i = levels.length - 1; i >= first; i--) {
+    if (levels[i] >= threshold) {
+      last = i;
+      break;
+    }
+  }
+
+  const padding = Math.round(paddingSeconds * sampleRate);
+  const start = Math.max(0, first * windowLength - padding);
+  const end = Math.min(samples.length, (last + 1) * windowLength + padding);
+  return samples.slice(start, end);
+}
+
+/**
+ * Scale a recording so its average level is `targetDb` (dB full scale),
+ * turning it down further if that would push any peak past `peakCeiling`
+ */
+export function normalizeLoudness(
+  samples: Float32Array,
+  targetDb: number,
+  peakCeiling: number = 0.9
+): Float32Array {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak === 0) return samples.slice();
+
+  const gain = Math.min(
+    Math.pow(10, (targetDb - levelDb(meanSquare(samples))) / 20),
+    peakCeiling / peak
+  );
+  return samples.map((sample) => sample * gain);
+}
+
+// Loudness every sound is played at, in LUFS, so a volume setting sounds
+// the same whatever is playing
+export const REFERENCE_LOUDNESS = -18;
+// Quiet sounds are turned up by no more than this, in dB, so their peaks don't clip
+const MAX_LOUDNESS_BOOST_DB = 6;
+
+// Blocks of audio gated and averaged when measuring loudness, and how far apart they start
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_STEP_SECONDS = 0.1;
+// Blocks quieter than this, in LUFS, are left out as silence
+const LOUDNESS_ABSOLUTE_GATE = -70;
+// Blocks this far below the ungated average are left out as quiet passages
+const LOUDNESS_RELATIVE_GATE_DB = 10;
+
+/**
+ * Coefficients of the two K-weighting filters for a sample rate: a high
+ * shelf for the effect of the head, then a high-pass for the ear's
+ * insensitivity to deep bass
+ */
+function kWeightingFilters(sampleRate: number): { b: number[]; a: number[] }[] {
+  const shelf = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelf / shelfQ + shelf * shelf;
+
+  const highPass = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const highPassQ = 0.5003270373238773;
+  const highPassA0 = 1 + highPass / highPassQ + highPass * highPass;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelf) / shelfQ + shelf * shelf) / shelfA0,
+        (2 * (shelf * shelf - vh)) / shelfA0,
+        (vh - (vb * shelf) / shelfQ + shelf * shelf) / shelfA0,
+      ],
+      a: [(2 * (shelf * shelf - 1)) / shelfA0, (1 - shelf / shelfQ + shelf * shelf) / shelfA0],
+    },
+    {
+      b: [1, -2, 1],
+      a: [
+        (2 * (highPass * highPass - 1)) / highPassA0,
+        (1 - highPass / highPassQ + highPass * highPass) / highPassA0,
+      ],
+    },
+  ];
+}
+
+/**
+ * Measure how loud a recording sounds, as integrated loudness in LUFS
+ * following ITU-R BS.1770 (the measure behind ffmpeg's ebur128 filter and
+ * streaming services' loudness matching).
+ *
+ * Unlike a plain average level it weights frequencies the way the ear
+ * does, and it ignores silence and quiet passages, so a song with a soft
+ * intro measures the same as one without.
+ *
+ * @param channels One array of samples per channel
+ * @returns The loudness, or -Infinity if the recording is silent or shorter than 0.4 seconds
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const stepLength = Math.round(LOUDNESS_STEP_SECONDS * sampleRate);
+  const stepsPerBlock = Math.round(LOUDNESS_BLOCK_SECONDS / LOUDNESS_STEP_SECONDS);
+  const stepCount = Math.floor((channels[0]?.length ?? 0) / stepLength);
+  if (stepLength === 0 || stepCount < stepsPerBlock) return -Infinity;
+
+  // Sum of the squared, K-weighted samples in each step, over all channels
+  const stepEnergy = new Float64Array(stepCount);
+  // Unpacked, as this runs for every sample of songs several minutes long
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  for (const channel of channels) {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let i = 0; i < stepCount * stepLength; i++) {
+      const x = channel[i];
+      const y =
+        shelf.b[0] * x + shelf.b[1] * x1 + shelf.b[2] * x2 - shelf.a[0] * y1 - shelf.a[1] * y2;
+      const z =
+        highPass.b[0] * y + highPass.b[1] * y1 + highPass.b[2] * y2 -
+        highPass.a[0] * z1 - highPass.a[1] * z2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      z2 = z1;
+      z1 = z;
+      stepEnergy[Math.floor(i / stepLength)] += z * z;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let first = 0; first + stepsPerBlock <= stepCount; first++) {
+    let energy = 0;
+    for (let step = first; step < first + stepsPerBlock; step++) {
+      energy += stepEnergy[step];
+    }
+    blockPowers.push(energy / (stepsPerBlock * stepLength));
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const averageLoudness = (powers: number[]) =>
+    powers.length > 0
+      ? toLoudness(powers.reduce((total, power) => total + power, 0) / powers.length)
+      : -Infinity;
+
+  const audible = blockPowers.filter((power) => toLoudness(power) > LOUDNESS_ABSOLUTE_GATE);
+  const relativeGate = averageLoudness(audible) - LOUDNESS_RELATIVE_GATE_DB;
+  return averageLoudness(audible.filter((power) => toLoudness(power) > relativeGate));
+}
+
+/**
+ * Gain that brings a sound measured at `loudness` LUFS to REFERENCE_LOUDNESS
+ */
+export function getLoudnessGain(loudness: number): number {
+  if (!isFinite(loudness)) return 1;
+  return Math.pow(10, Math.min(MAX_LOUDNESS_BOOST_DB, REFERENCE_LOUDNESS - loudness) / 20);
+}
+
+/**
+ * Gain that keeps a mix from peaking above full scale. Every source's
+ * samples stay within -1..1 before its own gain, so the gains added up are
+ * the most the mix can reach.
+ * @param levels Gain of every source that is playing
+ * @returns 1 while the levels add up to full scale or less, otherwise the
+ *   gain that brings their total back down to it
+ */
+export function getMixHeadroom(levels: Iterable<number>): number {
+  let total = 0;
+  for (const level of levels) {
+    total += Math.max(0, level);
+  }
+  return total > 1 ? 1 / total : 1;
+}
+
+/**
+ * Choose loop points for a recording that has no obvious repeat in it.
+ *
+ * The loop starts at the beginning. The end is picked near the end of the
+ * recording where the audio about to be crossfaded into the start is
+ * closest in level to the start itself, so the seam neither swells nor dips.
+ *
+ * @param maxCrossfadeSeconds Longest crossfade to use; short clips get shorter ones
+ * @param searchSeconds How far back from the end to look for the loop end
+ * @returns Loop points in seconds, in the form sound.json uses
+ */
+export function chooseLoopPoints(
+  samples: Float32Array,
+  sampleRate: number,
+  maxCrossfadeSeconds: number = 0.5,
+  searchSeconds: number = 1
+): { start: number; end: number; crossfade: number } {
+  const crossfadeLength = Math.min(
+    Math.round(maxCrossfadeSeconds * sampleRate),
+    Math.floor(samples.length / 4)
+  );
+  const startLevel = levelDb(meanSquare(samples.subarray(0, crossfadeLength)));
+  const latestEnd = samples.length - crossfadeLength;
+  const earliestEnd = Math.max(
+    crossfadeLength * 2,
+    latestEnd - Math.round(searchSeconds * sampleRate)
+  );
+  const step = Math.max(1, Math.round(LEVEL_WINDOW_SECONDS * sampleRate / 2));
+
+  let bestEnd = latestEnd;
+  let bestDifference = Infinity;
+  for (let end = latestEnd; end >= earliestEnd; end -= step) {
+    const level = levelDb(meanSquare(samples.subarray(end, end + crossfadeLength)));
+    const difference = Math.abs(level - startLevel);
+    if (difference < bestDifference) {
+      bestDifference = difference;
+      bestEnd = end;
+    }
+  }
+
+  return {
+    start: 0,
+    end: bestEnd / sampleRate,
+    crossfade: crossfadeLength / sampleRate,
+  };
+}
+
+/**
+ * Encode mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const dataLength = samples.length * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk length
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // bytes per second
+  view.setUint16(32, 2, true); // bytes per frame
+  view.setUint16(34, 16, true); // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, Math.round(sample * 0x7fff), true);
+  }
+  return bytes;
+}
+
+export default {
+  meanSquare,
+  makeSeamlessLoop,
+  extractSeamlessLoop,
+  trimSilence,
+  normalizeLoudness,
+  REFERENCE_LOUDNESS,
+  measureLoudness,
+  getLoudnessGain,
+  getMixHeadroom,
+  chooseLoopPoints,
+  encodeWav,
+};
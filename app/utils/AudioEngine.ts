@@ -0,0 +1,393 @@
+import {
+  AnalyserNode,
+  AudioContext,
+  AudioParam,
+  GainNode,
+  OscillatorNode,
+} from 'react-native-audio-api';
+import { getMixHeadroom } from './AudioDSP';
+
+const FADE_CURVE_STEPS = 64;
+// Time constant for gliding modulation depth changes so they don't click
+const MODULATION_GLIDE_SECONDS = 0.2;
+// Exponential ramps can't reach zero, so they stop here (-60 dB) and then cut
+const EXPONENTIAL_FADE_FLOOR = 0.001;
+// Time constant for coming back up when a scheduled fade-out is cancelled
+const FADE_OUT_CANCEL_GLIDE_SECONDS = 0.5;
+// Time constant for output cap changes so moving the slider doesn't click
+const CAP_GLIDE_SECONDS = 0.05;
+// Time constant for the headroom stage coming back up once a source stops or
+// gets quieter; slow enough to ride over the source's own fade-out
+const HEADROOM_RELEASE_SECONDS = 1;
+// Samples the analyser keeps, about 46 ms at 44.1 kHz
+const ANALYSER_FFT_SIZE = 2048;
+
+/**
+ * Shape of a long fade-out. Linear lowers the gain evenly; exponential
+ * lowers the loudness evenly, which sounds smoother over several minutes.
+ */
+export type FadeOutCurve = 'linear' | 'exponential';
+
+/**
+ * Rhythmic amplitude modulation applied to everything that plays
+ */
+export interface ModulationSettings {
+  // Pulses per second
+  rate: number;
+  // How far the level dips on each pulse, from 0 (steady) to 1 (silent at the dip)
+  depth: number;
+}
+
+/**
+ * Build an equal-power (sine/cosine) gain curve for fading a source in or
+ * out. Two uncorrelated sources crossfaded with these curves keep a constant
+ * combined loudness, unlike a linear ramp which dips in the middle.
+ */
+export function createFadeCurve(direction: 'in' | 'out', peak: number = 1): Float32Array {
+  const curve = new Float32Array(FADE_CURVE_STEPS);
+  for (let i = 0; i < FADE_CURVE_STEPS; i++) {
+    const theta = (i / (FADE_CURVE_STEPS - 1)) * (Math.PI / 2);
+    curve[i] = peak * (direction === 'in' ? Math.sin(theta) : Math.cos(theta));
+  }
+  return curve;
+}
+
+/**
+ * Schedule an equal-power fade on a gain param, replacing any fade in progress
+ * @param param The gain param to fade
+ * @param direction Whether to fade in to `peak` or out to silence
+ * @param durationSeconds Length of the fade
+ * @param peak The fully faded-in gain value
+ */
+export function scheduleFade(
+  param: AudioParam,
+  direction: 'in' | 'out',
+  durationSeconds: number,
+  peak: number = 1
+): void {
+  const now = param.context.currentTime;
+  param.cancelScheduledValues(now);
+  param.setValueCurveAtTime(createFadeCurve(direction, peak), now, durationSeconds);
+}
+
+/**
+ * AudioEngine owns the single audio context shared by every generator and
+ * the master bus that all sources are routed through before the speaker:
+ * sources -> modulation -> fade-out -> master volume -> headroom -> safety cap -> speaker.
+ *
+ * Every source reports the gain it plays at through setSourceLevel. When
+ * the sources playing add up to more than full scale, the headroom stage
+ * turns the whole mix down to fit, so however many layers are on and however
+ * much a quiet recording is boosted, the mix never gets louder than one
+ * source at full volume. The safety cap after it is the last stage, so
+ * nothing that plays can get past it.
+ *
+ * The modulation stage is a gain driven by a low-frequency sine on the
+ * audio thread, so rhythmic pulsing costs nothing on the JS side.
+ *
+ * An analyser can be put in between the fade-out and the master volume
+ * while something on screen wants to follow the sound. It hears the mix
+ * before the parent's volume, so visuals don't change with the phone's
+ * loudness.
+ */
+class AudioEngine {
+  private static instance: AudioEngine;
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private capGain: GainNode | null = null;
+  private headroomGain: GainNode | null = null;
+  // Gain of every source that is playing, keyed by the source
+  private sourceLevels: Map<object, number> = new Map();
+  private volume: number = 1;
+  private outputCap: number = 1;
+  // Separate from the master volume so a long fade never changes the parent's setting
+  private fadeOutGain: GainNode | null = null;
+  private modulationGain: GainNode | null = null;
+  private modulator: OscillatorNode | null = null;
+  private modulatorDepth: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private modulation: ModulationSettings = { rate: 1, depth: 0 };
+  // Audio clock time at which the modulation cycle was last at phase 0
+  private modulationEpoch: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): AudioEngine {
+    if (!AudioEngine.instance) {
+      AudioEngine.instance = new AudioEngine();
+    }
+    return AudioEngine.instance;
+  }
+
+  /**
+   * Create the audio context and master bus if they don't exist yet.
+   * The audio session itself is configured by AudioManager.
+   */
+  public async initialize(): Promise<boolean> {
+    if (this.context) return true;
+    try {
+      this.context = new AudioContext();
+      this.capGain = this.context.createGain();
+      this.capGain.gain.value = this.outputCap;
+      this.capGain.connect(this.context.destination);
+      this.headroomGain = this.context.createGain();
+      this.headroomGain.gain.value = getMixHeadroom(this.sourceLevels.values());
+      this.headroomGain.connect(this.capGain);
+      this.masterGain = this.context.createGain();
+      this.masterGain.gain.value = this.volume;
+      this.masterGain.connect(this.headroomGain);
+      this.fadeOutGain = this.context.createGain();
+      this.fadeOutGain.connect(this.masterGain);
+      this.createModulation();
+      return true;
+    } catch (error) {
+      console.error('Failed to create audio context:', error);
+      this.context = null;
+      this.masterGain = null;
+      this.headroomGain = null;
+      this.capGain = null;
+      return false;
+    }
+  }
+
+  /**
+   * Build the modulation stage in front of the master bus. The sine swings
+   * the stage's gain by depth/2 either side of 1 - depth/2, so the level
+   * peaks at 1 and dips to 1 - depth.
+   */
+  private createModulation() {
+    if (!this.context || !this.fadeOutGain) return;
+    const { rate, depth } = this.modulation;
+
+    this.modulationGain = this.context.createGain();
+    this.modulationGain.gain.value = 1 - depth / 2;
+    this.modulationGain.connect(this.fadeOutGain);
+
+    this.modulatorDepth = this.context.createGain();
+    this.modulatorDepth.gain.value = depth / 2;
+    this.modulatorDepth.connect(this.modulationGain.gain);
+
+    this.modulator = this.context.createOscillator();
+    this.modulator.type = 'sine';
+    this.modulator.frequency.value = rate;
+    this.modulator.connect(this.modulatorDepth);
+    this.modulationEpoch = this.context.currentTime;
+    this.modulator.start(this.modulationEpoch);
+  }
+
+  /**
+   * Get the shared audio context, or null when audio is unavailable
+   */
+  public getContext(): AudioContext | null {
+    return this.context;
+  }
+
+  /**
+   * Get the node that sources should connect their output to
+   */
+  public getOutput(): GainNode | null {
+    return this.modulationGain;
+  }
+
+  /**
+   * Get the analyser tapping the mix, putting it into the bus the first time
+   * @returns The analyser, or null when audio is unavailable
+   */
+  public getAnalyser(): AnalyserNode | null {
+    if (this.analyser) return this.analyser;
+    if (!this.context || !this.fadeOutGain || !this.masterGain) return null;
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = ANALYSER_FFT_SIZE;
+    this.fadeOutGain.disconnect(this.masterGain);
+    this.fadeOutGain.connect(this.analyser);
+    this.analyser.connect(this.masterGain);
+    return this.analyser;
+  }
+
+  /**
+   * Take the analyser out of the bus once nothing is following the sound
+   */
+  public releaseAnalyser(): void {
+    if (!this.analyser) return;
+    if (this.fadeOutGain && this.masterGain) {
+      this.fadeOutGain.disconnect(this.analyser);
+      this.fadeOutGain.connect(this.masterGain);
+    }
+    this.analyser.disconnect();
+    this.analyser = null;
+  }
+
+  /**
+   * Pulse everything that plays at `rate` Hz. A depth of 0 turns pulsing off.
+   * Changing the rate keeps the current position in the cycle, so the
+   * rhythm never jumps.
+   */
+  public setModulation(settings: Partial<ModulationSettings>): void {
+    const phase = this.getModulationPhase();
+    this.modulation = { ...this.modulation, ...settings };
+    const { rate, depth } = this.modulation;
+    this.modulationEpoch = this.getCurrentTime() - phase / rate;
+
+    const now = this.getCurrentTime();
+    this.modulator?.frequency.setValueAtTime(rate, now);
+    this.modulatorDepth?.gain.setTargetAtTime(depth / 2, now, MODULATION_GLIDE_SECONDS);
+    this.modulationGain?.gain.setTargetAtTime(1 - depth / 2, now, MODULATION_GLIDE_SECONDS);
+  }
+
+  public getModulation(): ModulationSettings {
+    return { ...this.modulation };
+  }
+
+  /**
+   * Position in the current modulation cycle, from 0 up to 1. The level is
+   * rising through its midpoint at 0 and at its peak at 0.25.
+   */
+  public getModulationPhase(): number {
+    const elapsed = (this.getCurrentTime() - this.modulationEpoch) * this.modulation.rate;
+    return elapsed - Math.floor(elapsed);
+  }
+
+  /**
+   * Set the overall output level applied after every source
+   * @param glideSeconds Time constant for easing to the new level; 0 jumps straight to it
+   */
+  public setMasterVolume(volume: number, glideSeconds: number = 0): void {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.masterGain) {
+      const now = this.getCurrentTime();
+      this.masterGain.gain.cancelScheduledValues(now);
+      if (glideSeconds > 0) {
+        this.masterGain.gain.setTargetAtTime(this.volume, now, glideSeconds);
+      } else {
+        this.masterGain.gain.setValueAtTime(this.volume, now);
+      }
+    }
+  }
+
+  /**
+   * Tell the engine the gain a source is playing at, 0 once it stops.
+   * The mix is turned down at once when the total goes over full scale, as
+   * the source is already louder, and comes back up gently.
+   * @param source The generator or player, used only to tell sources apart
+   */
+  public setSourceLevel(source: object, level: number): void {
+    if (level > 0) {
+      this.sourceLevels.set(source, level);
+    } else {
+      this.sourceLevels.delete(source);
+    }
+    if (!this.headroomGain) return;
+
+    const headroom = getMixHeadroom(this.sourceLevels.values());
+    const param = this.headroomGain.gain;
+    const now = this.getCurrentTime();
+    if (headroom < param.value) {
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(headroom, now);
+    } else {
+      param.cancelAndHoldAtTime(now);
+      param.setTargetAtTime(headroom, now, HEADROOM_RELEASE_SECONDS);
+    }
+  }
+
+  /**
+   * How loud the mix is set to play, as a share of the loudest the safety
+   * cap lets through: the master volume times the sources' total gain, which
+   * the headroom stage never lets past full scale
+   */
+  public getMixLevel(): number {
+    const total = Array.from(this.sourceLevels.values()).reduce((sum, level) => sum + level, 0);
+    return this.volume * Math.min(1, total);
+  }
+
+  /**
+   * Set the highest level (0-1) that can reach the speaker
+   */
+  public setOutputCap(cap: number): void {
+    this.outputCap = Math.max(0, Math.min(1, cap));
+    this.capGain?.gain.setTargetAtTime(this.outputCap, this.getCurrentTime(), CAP_GLIDE_SECONDS);
+  }
+
+  /**
+   * Fade everything out on the audio thread, so the fade completes on time
+   * even if JS timers are held back while the app is in the background
+   * @param delaySeconds How long from now the fade starts
+   * @param durationSeconds Length of the fade
+   * @param curve Shape of the fade
+   */
+  public scheduleFadeOut(delaySeconds: number, durationSeconds: number, curve: FadeOutCurve): void {
+    if (!this.fadeOutGain) return;
+    const param = this.fadeOutGain.gain;
+    const now = this.getCurrentTime();
+    const start = now + Math.max(0, delaySeconds);
+    const end = start + Math.max(0, durationSeconds);
+
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.setValueAtTime(1, start);
+    if (curve === 'exponential') {
+      param.exponentialRampToValueAtTime(EXPONENTIAL_FADE_FLOOR, end);
+      param.setValueAtTime(0, end);
+    } else {
+      param.linearRampToValueAtTime(0, end);
+    }
+  }
+
+  /**
+   * Cancel a scheduled fade-out and bring the level back up
+   */
+  public cancelFadeOut(): void {
+    if (!this.fadeOutGain) return;
+    const now = this.getCurrentTime();
+    this.fadeOutGain.gain.cancelAndHoldAtTime(now);
+    this.fadeOutGain.gain.setTargetAtTime(1, now, FADE_OUT_CANCEL_GLIDE_SECONDS);
+  }
+
+  /**
+   * Current time of the audio clock in seconds
+   */
+  public getCurrentTime(): number {
+    return this.context?.currentTime ?? 0;
+  }
+
+  public async resume(): Promise<void> {
+    if (this.context && this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  public async suspend(): Promise<void> {
+    if (this.context && this.context.state === 'running') {
+      await this.context.suspend();
+    }
+  }
+
+  public async cleanup(): Promise<void> {
+    try {
+      this.modulator?.stop();
+      this.modulator?.disconnect();
+      this.modulatorDepth?.disconnect();
+      this.modulationGain?.disconnect();
+      this.fadeOutGain?.disconnect();
+      this.analyser?.disconnect();
+      this.masterGain?.disconnect();
+      this.headroomGain?.disconnect();
+      this.capGain?.disconnect();
+      await this.context?.close();
+    } catch (error) {
+      console.error('Failed to close audio context:', error);
+    }
+    this.modulator = null;
+    this.modulatorDepth = null;
+    this.modulationGain = null;
+    this.fadeOutGain = null;
+    this.analyser = null;
+    this.masterGain = null;
+    this.headroomGain = null;
+    this.capGain = null;
+    this.context = null;
+  }
+}
+
+export default AudioEngine.getInstance();
@@ -1,13 +1,158 @@
-import WhiteNoiseGenerator from './WhiteNoiseGenerator';
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { Animated, Easing, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AudioManager as SystemAudioManager } from 'react-native-audio-api';
+import AudioEngine, { FadeOutCurve } from './AudioEngine';
+import WhiteNoiseGenerator, { NoiseFilterSettings } from './WhiteNoiseGenerator';
+import HeartbeatGenerator, { HeartbeatSettings } from './HeartbeatGenerator';
+import RhythmClock, { RhythmSettings } from './RhythmClock';
+import ToneSynthesizer, { ToneSettings } from './ToneSynthesizer';
+import SoundscapeMixer, { LayerId, LayerInfo, LayerState, Soundscape } from './SoundscapeMixer';
+import SoundManager, { SoundConfig } from './SoundManager';
+import PlaylistPlayer, { PlaylistSettings } from './PlaylistPlayer';
+import { NoiseColor, isNoiseColor } from './NoiseSynthesis';
+import AudioAnalyzer, { ANALYSIS_INTERVAL_MS, AudioAnalysis } from './AudioAnalyzer';
+import type { AnimationSoundscape } from './AnimationManager';
+
+const NOISE_COLOR_KEY = 'noiseColor';
+const NOISE_TONE_KEY = 'noiseTone';
+const NOISE_FILTERS_KEY = 'noiseFilters';
+const HEARTBEAT_KEY = 'heartbeat';
+const RHYTHM_KEY = 'rhythm';
+const INTERACTION_SOUNDS_KEY = 'interactionSounds';
+const END_POLICY_KEY = 'audioEndPolicy';
+const MIXER_LAYERS_KEY = 'mixerLayers';
+const SOUNDSCAPES_KEY = 'soundscapes';
+const PLAYLIST_KEY = 'lullabyPlaylist';
+// Set when the parent's mix should stay the same whichever animation plays
+const SOUND_PINNED_KEY = 'soundPinned';
+// The parent's sound on/off choice; the key predates the mixer
+const SOUND_ENABLED_KEY = 'whiteNoiseEnabled';
+const INTERRUPTION_POLICY_KEY = 'interruptionPolicy';
+const INTERRUPTION_KEY = 'audioInterruption';
+const MIX_MODE_KEY = 'audioMixMode';
+const VOLUME_CAP_KEY = 'volumeCap';
+
+/**
+ * Hearing safety: the loudest the sound may ever play, as a fraction of the
+ * device's full output. Infant sleep sounds should stay quiet (around 50 dB
+ * at the crib), so the cap starts well below full volume and the parent has
+ * to raise it deliberately.
+ */
+export const DEFAULT_VOLUME_CAP = 0.5;
+export const MIN_VOLUME_CAP = 0.1;
+// How far from the crib the device should be, in meters
+export const CRIB_DISTANCE_METERS = 2;
+
+/**
+ * How the sound shares the speaker with other apps' audio, such as the
+ * parent's own lullaby playlist:
+ * - solo: other audio stops when the sound starts
+ * - mix: both play at full volume
+ * - duck: other audio plays quieter underneath (iOS; the same as mix on Android)
+ */
+export type AudioMixMode = 'solo' | 'mix' | 'duck';
+
+/**
+ * What the sound does when the sleep timer runs out:
+ * - fade: fade out over the last `fadeMinutes` of the timer and stop with the visuals
+ * - extend: keep playing for `extraMinutes` after the visuals stop, fading
+ *   out over the last `fadeMinutes` of that
+ * - continue: keep playing until the parent stops it
+ */
+export type AudioEndMode = 'fade' | 'extend' | 'continue';
+
+export interface AudioEndPolicy {
+  mode: AudioEndMode;
+  fadeMinutes: number;
+  curve: FadeOutCurve;
+  extraMinutes: number;
+}
+
+export const DEFAULT_AUDIO_END_POLICY: AudioEndPolicy = {
+  mode: 'fade',
+  fadeMinutes: 5,
+  curve: 'exponential',
+  extraMinutes: 15,
+};
+
+/**
+ * What happens when a phone call or alarm interrupts the sound, or the
+ * output changes (e.g. headphones unplugged):
+ * - resume: pause, then fade back in once the interruption is over
+ * - pause: stay stopped until the parent starts the sound again
+ * - continue: ignore output changes and restart as soon as the system allows
+ */
+export type InterruptionPolicy = 'resume' | 'pause' | 'continue';
+
+/**
+ * A session that an interruption stopped, kept until the parent has seen it
+ */
+export interface AudioInterruption {
+  cause: 'interruption' | 'route-change';
+  // When the sound stopped, in milliseconds since the epoch
+  stoppedAt: number;
+}
+
+/**
+ * What the audio is actually doing, for screens to render
+ */
+export interface AudioState {
+  // The parent's sound on/off choice
+  enabled: boolean;
+  // Whether the mix is really playing right now
+  playing: boolean;
+  // Master volume, 0-1
+  volume: number;
+  // The loudest the output may play, 0-1
+  volumeCap: number;
+  // Mixer layers that are heard while the mix plays
+  sources: LayerId[];
+  // The last playback problem, cleared when playback next succeeds
+  error: string | null;
+  // A session an interruption stopped that the parent hasn't seen yet
+  interruption: AudioInterruption | null;
+}
+
+type AudioStateListener = (state: AudioState) => void;
+type SessionOptions = Parameters<typeof SystemAudioManager.setAudioSessionOptions>[0];
 
 /**
  * AudioManager provides a centralized way to control audio playback
  * independently from UI animations or other components.
+ *
+ * It is the single source of truth for playback: screens read the state
+ * and subscribe to changes instead of keeping their own copies.
  */
 class AudioManager {
   private static instance: AudioManager;
   private isInitialized: boolean = false;
-  private isPlaying: boolean = false;
+  private initializing: Promise<boolean> | null = null;
+  private state: AudioState = {
+    enabled: false,
+    playing: false,
+    volume: 1,
+    volumeCap: DEFAULT_VOLUME_CAP,
+    sources: [],
+    error: null,
+    interruption: null,
+  };
+  private listeners: Set<AudioStateListener> = new Set();
+  private interruptionPolicy: InterruptionPolicy = 'resume';
+  private mixMode: AudioMixMode = 'solo';
+  // Set while something is listening through the microphone
+  private microphoneActive: boolean = false;
+  // Set while the sound is paused for an interruption it should come back from
+  private pausedByInterruption: boolean = false;
+  private systemEventSubscriptions: ReturnType<
+    typeof SystemAudioManager.addSystemEventListener
+  >[] = [];
+  private endPolicy: AudioEndPolicy = { ...DEFAULT_AUDIO_END_POLICY };
+  private sleepTimerTimeout: ReturnType<typeof setTimeout> | null = null;
+  private sleepTimerEnded: boolean = false;
+  private soundPinned: boolean = false;
+  // The parent's own mix while an animation's sound stands in for it
+  private parentMix: { layers: LayerState[]; noiseColor: NoiseColor } | null = null;
 
   private constructor() {
     // Private constructor to enforce singleton pattern
@@ -23,6 +168,46 @@ class AudioManager {
     return AudioManager.instance;
   }
 
+  /**
+   * Get the current audio state. The object is replaced, never mutated, when
+   * anything changes.
+   */
+  public getState(): AudioState {
+    return this.state;
+  }
+
+  /**
+   * Be told whenever the audio state changes
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: AudioStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Follow what is playing: a reading of the mix's level, the shush and
+   * heartbeat rhythms and the sounding layers arrives every
+   * ANALYSIS_INTERVAL_MS for as long as the listener is subscribed
+   * @returns A function that removes the listener
+   */
+  public subscribeToAnalysis(listener: (analysis: AudioAnalysis) => void): () => void {
+    return AudioAnalyzer.subscribe(listener);
+  }
+
+  private updateState(changes: Partial<AudioState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  private getAudibleSources(): LayerId[] {
+    return SoundscapeMixer.getLayers()
+      .filter((layer) => !layer.muted && layer.volume > 0)
+      .map((layer) => layer.id);
+  }
+
   /**
    * Initialize audio system and prepare for playback
    */
@@ -30,19 +215,294 @@ class AudioManager {
     if (this.isInitialized) {
       return true;
     }
+    // Screens may call initialize while the root layout is still doing so
+    if (!this.initializing) {
+      this.initializing = this.loadAndInitialize().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
 
+  private async loadAndInitialize(): Promise<boolean> {
     try {
+      // The cap goes on before anything can play
+      const savedVolumeCap = await AsyncStorage.getItem(VOLUME_CAP_KEY);
+      this.setVolumeCap(
+        savedVolumeCap !== null && !isNaN(parseFloat(savedVolumeCap))
+          ? parseFloat(savedVolumeCap)
+          : this.state.volumeCap,
+        false
+      );
+      const savedEnabled = await AsyncStorage.getItem(SOUND_ENABLED_KEY);
+      const savedInterruption = await AsyncStorage.getItem(INTERRUPTION_KEY);
+      const savedMixMode = await AsyncStorage.getItem(MIX_MODE_KEY);
+      if (savedMixMode === 'solo' || savedMixMode === 'mix' || savedMixMode === 'duck') {
+        this.mixMode = savedMixMode;
+      }
+      this.applyAudioSession();
+      const savedInterruptionPolicy = await AsyncStorage.getItem(INTERRUPTION_POLICY_KEY);
+      if (
+        savedInterruptionPolicy === 'resume' ||
+        savedInterruptionPolicy === 'pause' ||
+        savedInterruptionPolicy === 'continue'
+      ) {
+        this.interruptionPolicy = savedInterruptionPolicy;
+      }
+      const savedColor = await AsyncStorage.getItem(NOISE_COLOR_KEY);
+      if (isNoiseColor(savedColor)) {
+        await WhiteNoiseGenerator.setColor(savedColor);
+      }
+      const savedTone = await AsyncStorage.getItem(NOISE_TONE_KEY);
+      if (savedTone !== null && !isNaN(parseFloat(savedTone))) {
+        WhiteNoiseGenerator.setTone(parseFloat(savedTone));
+      }
+      const savedFilters = await AsyncStorage.getItem(NOISE_FILTERS_KEY);
+      if (savedFilters) {
+        WhiteNoiseGenerator.setFilters(JSON.parse(savedFilters));
+      }
+      const savedHeartbeat = await AsyncStorage.getItem(HEARTBEAT_KEY);
+      if (savedHeartbeat) {
+        HeartbeatGenerator.setSettings(JSON.parse(savedHeartbeat));
+      }
+      const savedEndPolicy = await AsyncStorage.getItem(END_POLICY_KEY);
+      if (savedEndPolicy) {
+        this.endPolicy = { ...this.endPolicy, ...JSON.parse(savedEndPolicy) };
+      }
+      const savedRhythm = await AsyncStorage.getItem(RHYTHM_KEY);
+      if (savedRhythm) {
+        RhythmClock.setSettings(JSON.parse(savedRhythm));
+      }
+      const savedInteractionSounds = await AsyncStorage.getItem(INTERACTION_SOUNDS_KEY);
+      if (savedInteractionSounds) {
+        ToneSynthesizer.setSettings(JSON.parse(savedInteractionSounds));
+      }
+      this.soundPinned = (await AsyncStorage.getItem(SOUND_PINNED_KEY)) === 'true';
+      const soundManager = SoundManager.getInstance();
+      await soundManager.initialize();
+      SoundscapeMixer.registerSounds(soundManager.getSounds());
+      const savedPlaylist = await AsyncStorage.getItem(PLAYLIST_KEY);
+      if (savedPlaylist) {
+        this.applyPlaylist(JSON.parse(savedPlaylist));
+      }
+
+      const savedLayers = await AsyncStorage.getItem(MIXER_LAYERS_KEY);
+      if (savedLayers) {
+        await SoundscapeMixer.setLayers(JSON.parse(savedLayers));
+      }
+
       const success = await WhiteNoiseGenerator.initialize();
       this.isInitialized = success;
+      if (success) {
+        this.observeSystemEvents();
+      }
+      this.updateState({
+        enabled: savedEnabled === 'true',
+        interruption: savedInterruption ? JSON.parse(savedInterruption) : null,
+        sources: this.getAudibleSources(),
+        error: success ? null : 'Audio could not be started on this device',
+      });
       return success;
     } catch (error) {
       console.error('Failed to initialize AudioManager:', error);
+      this.updateState({ error: 'Audio could not be started on this device' });
       return false;
     }
   }
 
   /**
-   * Start playing white noise independent of animations
+   * Configure the audio session for the current mix mode. This is the only
+   * place the session is set up; the sound always plays in the background
+   * and with the silent switch on.
+   *
+   * While the microphone is in use the session also records, in measurement
+   * mode so the system doesn't adjust the input level, and keeps the sound
+   * on the loudspeaker rather than the earpiece.
+   */
+  private applyAudioSession(): void {
+    try {
+      const mixOptions: NonNullable<SessionOptions['iosOptions']> =
+        this.mixMode === 'mix'
+          ? ['mixWithOthers']
+          : this.mixMode === 'duck'
+            ? ['duckOthers']
+            : [];
+      SystemAudioManager.setAudioSessionOptions(
+        this.microphoneActive
+          ? {
+              iosCategory: 'playAndRecord',
+              iosMode: 'measurement',
+              iosOptions: [...mixOptions, 'defaultToSpeaker'],
+            }
+          : {
+              iosCategory: 'playback',
+              iosMode: 'default',
+              iosOptions: mixOptions,
+            }
+      );
+      // On Android, observing interruptions takes audio focus, which stops
+      // other apps' audio; only do that when the sound plays on its own.
+      // iOS reports interruptions without taking anything away.
+      SystemAudioManager.observeAudioInterruptions(
+        Platform.OS === 'ios' || this.mixMode === 'solo'
+      );
+    } catch (error) {
+      console.error('Failed to configure audio session:', error);
+    }
+  }
+
+  /**
+   * Choose how the sound shares the speaker with other apps and remember it.
+   * Applied immediately.
+   */
+  public async setMixMode(mode: AudioMixMode): Promise<void> {
+    this.mixMode = mode;
+    this.applyAudioSession();
+    try {
+      await AsyncStorage.setItem(MIX_MODE_KEY, mode);
+    } catch (error) {
+      console.error('Failed to save mix mode:', error);
+    }
+  }
+
+  public getMixMode(): AudioMixMode {
+    return this.mixMode;
+  }
+
+  /**
+   * Switch the audio session to allow recording while the microphone is in
+   * use, and back again afterwards
+   */
+  public setMicrophoneActive(active: boolean): void {
+    if (this.microphoneActive === active) return;
+    this.microphoneActive = active;
+    this.applyAudioSession();
+  }
+
+  /**
+   * Listen for interruptions and output route changes from the system
+   */
+  private observeSystemEvents(): void {
+    if (this.systemEventSubscriptions.length > 0) return;
+    this.systemEventSubscriptions = [
+      SystemAudioManager.addSystemEventListener('interruption', (event) => {
+        if (event.type === 'began') {
+          this.handleInterruptionBegan('interruption');
+        } else {
+          this.handleInterruptionEnded(event.shouldResume);
+        }
+      }),
+      SystemAudioManager.addSystemEventListener('routeChange', (event) => {
+        if (event.reason === 'OldDeviceUnavailable') {
+          this.handleInterruptionBegan('route-change');
+        } else if (event.reason === 'NewDeviceAvailable') {
+          this.handleInterruptionEnded(true);
+        }
+      }),
+    ];
+  }
+
+  /**
+   * The system took the audio away, or the output it was playing through
+   * went away
+   */
+  private async handleInterruptionBegan(cause: AudioInterruption['cause']): Promise<void> {
+    if (!this.state.playing) return;
+    // Headphones coming out doesn't stop the audio, so keep going if asked to.
+    // A call or alarm always silences it; the system decides, not us.
+    if (this.interruptionPolicy === 'continue' && cause === 'route-change') return;
+
+    console.log(`Sound paused by ${cause}`);
+    await this.stopWhiteNoise();
+    // Recorded straight away in case the sound never comes back;
+    // forgotten again if it does
+    await this.recordInterruption({ cause, stoppedAt: Date.now() });
+    this.pausedByInterruption = this.interruptionPolicy !== 'pause';
+  }
+
+  /**
+   * The interruption is over, or an output became available again
+   * @param shouldResume Whether the system suggests starting again
+   */
+  private async handleInterruptionEnded(shouldResume: boolean): Promise<void> {
+    if (!this.pausedByInterruption) return;
+    this.pausedByInterruption = false;
+    if (!this.state.enabled) return;
+
+    // "continue" restarts whatever the system suggests
+    const resume = shouldResume || this.interruptionPolicy === 'continue';
+    if (resume && (await this.startWhiteNoise())) {
+      await this.dismissInterruption();
+    }
+  }
+
+  private async recordInterruption(interruption: AudioInterruption): Promise<void> {
+    this.updateState({ interruption });
+    try {
+      await AsyncStorage.setItem(INTERRUPTION_KEY, JSON.stringify(interruption));
+    } catch (error) {
+      console.error('Failed to save interruption:', error);
+    }
+  }
+
+  /**
+   * Forget the interrupted session once the parent has seen it
+   */
+  public async dismissInterruption(): Promise<void> {
+    this.updateState({ interruption: null });
+    try {
+      await AsyncStorage.removeItem(INTERRUPTION_KEY);
+    } catch (error) {
+      console.error('Failed to clear interruption:', error);
+    }
+  }
+
+  /**
+   * Choose what happens when the sound is interrupted and remember it
+   */
+  public async setInterruptionPolicy(policy: InterruptionPolicy): Promise<void> {
+    this.interruptionPolicy = policy;
+    try {
+      await AsyncStorage.setItem(INTERRUPTION_POLICY_KEY, policy);
+    } catch (error) {
+      console.error('Failed to save interruption policy:', error);
+    }
+  }
+
+  public getInterruptionPolicy(): InterruptionPolicy {
+    return this.interruptionPolicy;
+  }
+
+  /**
+   * Turn the sound on or off and remember the choice
+   */
+  public async setEnabled(enabled: boolean): Promise<boolean> {
+    this.pausedByInterruption = false;
+    this.updateState({ enabled });
+    try {
+      await AsyncStorage.setItem(SOUND_ENABLED_KEY, enabled.toString());
+    } catch (error) {
+      console.error('Failed to save sound setting:', error);
+    }
+    return enabled ? this.startWhiteNoise() : this.stopWhiteNoise();
+  }
+
+  /**
+   * Start or stop playback to match the parent's sound setting. Screens call
+   * this when they open. Sound the sleep timer has ended stays off until it
+   * is started again.
+   */
+  public async syncPlayback(): Promise<boolean> {
+    if (!(await this.initialize())) return false;
+    if (!this.state.enabled) {
+      return this.stopWhiteNoise();
+    }
+    if (this.sleepTimerEnded) return true;
+    return this.startWhiteNoise();
+  }
+
+  /**
+   * Start playing the sound mix independent of animations
    */
   public async startWhiteNoise(): Promise<boolean> {
     try {
@@ -53,52 +513,553 @@ class AudioManager {
         }
       }
 
-      if (!this.isPlaying) {
-        const success = await WhiteNoiseGenerator.play();
-        this.isPlaying = success;
+      if (!this.state.playing) {
+        // Starting again after the sleep timer ended the sound
+        if (this.sleepTimerEnded) {
+          this.sleepTimerEnded = false;
+          AudioEngine.cancelFadeOut();
+        }
+        const success = await SoundscapeMixer.play();
+        this.updateState({
+          playing: success,
+          error: success ? null : 'The sound could not be played',
+        });
         return success;
       }
       return true;
     } catch (error) {
       console.error('Failed to start white noise:', error);
+      this.updateState({ playing: false, error: 'The sound could not be played' });
       return false;
     }
   }
 
   /**
-   * Stop white noise with fade out
+   * Stop every layer of the sound mix with fade out
    */
   public async stopWhiteNoise(): Promise<boolean> {
     try {
-      if (this.isPlaying) {
-        await WhiteNoiseGenerator.stop();
-        this.isPlaying = false;
+      if (this.state.playing) {
+        await SoundscapeMixer.stop();
+        this.updateState({ playing: false });
         return true;
       }
       return true;
     } catch (error) {
       console.error('Failed to stop white noise:', error);
-      this.isPlaying = false; // Ensure state is updated even on error
+      this.updateState({ playing: false }); // Ensure state is updated even on error
       return false;
     }
   }
 
   /**
-   * Set the volume of white noise
+   * Start the audio side of the sleep timer, replacing any timer already
+   * running. The sound ends according to the end policy, whether or not the
+   * screen that started the timer is still open.
+   * @param minutes Length of the sleep timer
    */
-  public async setVolume(volume: number): Promise<void> {
+  public async startSleepTimer(minutes: number): Promise<void> {
+    this.cancelSleepTimer();
+    if (!(await this.initialize())) return;
+
+    const { mode, fadeMinutes, curve, extraMinutes } = this.endPolicy;
+    if (mode === 'continue') return;
+
+    const endSeconds = (minutes + (mode === 'extend' ? extraMinutes : 0)) * 60;
+    const fadeSeconds = Math.min(fadeMinutes * 60, endSeconds);
+    AudioEngine.scheduleFadeOut(endSeconds - fadeSeconds, fadeSeconds, curve);
+
+    this.sleepTimerTimeout = setTimeout(async () => {
+      this.sleepTimerTimeout = null;
+      console.log('Sleep timer ended the sound');
+      await this.stopWhiteNoise();
+      this.sleepTimerEnded = true;
+    }, endSeconds * 1000);
+  }
+
+  /**
+   * Cancel the audio side of the sleep timer, e.g. when the parent unlocks
+   * the screen early. Any fade in progress comes back up.
+   */
+  public cancelSleepTimer(): void {
+    if (this.sleepTimerTimeout) {
+      clearTimeout(this.sleepTimerTimeout);
+      this.sleepTimerTimeout = null;
+    }
+    this.sleepTimerEnded = false;
+    AudioEngine.cancelFadeOut();
+  }
+
+  /**
+   * Choose what the sound does when the sleep timer runs out and remember
+   * it. Takes effect from the next sleep timer.
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setEndPolicy(policy: Partial<AudioEndPolicy>, persist: boolean = true): Promise<void> {
+    this.endPolicy = { ...this.endPolicy, ...policy };
+    if (!persist) return;
+    try {
+      await AsyncStorage.setItem(END_POLICY_KEY, JSON.stringify(this.endPolicy));
+    } catch (error) {
+      console.error('Failed to save audio end policy:', error);
+    }
+  }
+
+  /**
+   * Get what the sound does when the sleep timer runs out
+   */
+  public getEndPolicy(): AudioEndPolicy {
+    return { ...this.endPolicy };
+  }
+
+  /**
+   * Set the overall volume of the sound mix
+   * @param glideSeconds Time constant for easing to the new volume; 0 changes it at once
+   */
+  public async setVolume(volume: number, glideSeconds: number = 0): Promise<void> {
     try {
-      await WhiteNoiseGenerator.setVolume(volume);
+      AudioEngine.setMasterVolume(volume, glideSeconds);
+      this.updateState({ volume: Math.max(0, Math.min(1, volume)) });
     } catch (error) {
       console.error('Failed to set volume:', error);
     }
   }
 
+  /**
+   * Set the loudest the sound may play, whatever the volume and layer
+   * settings are, and optionally remember it. Never goes below MIN_VOLUME_CAP
+   * so the sound can't be silenced by accident.
+   */
+  public async setVolumeCap(cap: number, persist: boolean = true): Promise<void> {
+    const volumeCap = Math.max(MIN_VOLUME_CAP, Math.min(1, cap));
+    AudioEngine.setOutputCap(volumeCap);
+    this.updateState({ volumeCap });
+    if (!persist) return;
+    try {
+      await AsyncStorage.setItem(VOLUME_CAP_KEY, volumeCap.toString());
+    } catch (error) {
+      console.error('Failed to save volume cap:', error);
+    }
+  }
+
+  public getVolumeCap(): number {
+    return this.state.volumeCap;
+  }
+
+  /**
+   * How loud the sound is playing right now, as a share (0-1) of the
+   * loudest any mix can get under the volume cap
+   */
+  public getMixLevel(): number {
+    return AudioEngine.getMixLevel();
+  }
+
+  /**
+   * Set the noise color (white, pink or brown) and remember it.
+   * Crossfades to the new color if noise is playing.
+   */
+  public async setNoiseColor(color: NoiseColor): Promise<void> {
+    try {
+      await WhiteNoiseGenerator.setColor(color);
+      await AsyncStorage.setItem(NOISE_COLOR_KEY, color);
+    } catch (error) {
+      console.error('Failed to set noise color:', error);
+    }
+  }
+
+  /**
+   * Get the current noise color
+   */
+  public getNoiseColor(): NoiseColor {
+    return WhiteNoiseGenerator.getColor();
+  }
+
+  /**
+   * Tilt the noise spectrum from bright (-1) to deep (1). Applied live.
+   * @param tone Tone value between -1 and 1, 0 is neutral
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setNoiseTone(tone: number, persist: boolean = true): Promise<void> {
+    try {
+      WhiteNoiseGenerator.setTone(tone);
+      if (persist) {
+        await AsyncStorage.setItem(NOISE_TONE_KEY, WhiteNoiseGenerator.getTone().toString());
+      }
+    } catch (error) {
+      console.error('Failed to set noise tone:', error);
+    }
+  }
+
+  /**
+   * Get the current noise tone between -1 (bright) and 1 (deep)
+   */
+  public getNoiseTone(): number {
+    return WhiteNoiseGenerator.getTone();
+  }
+
+  /**
+   * Set or clear the noise low-pass and high-pass cutoffs (null turns a filter off)
+   */
+  public async setNoiseFilters(settings: Partial<NoiseFilterSettings>): Promise<void> {
+    try {
+      WhiteNoiseGenerator.setFilters(settings);
+      await AsyncStorage.setItem(
+        NOISE_FILTERS_KEY,
+        JSON.stringify(WhiteNoiseGenerator.getFilters())
+      );
+    } catch (error) {
+      console.error('Failed to set noise filters:', error);
+    }
+  }
+
+  /**
+   * Get the current noise cutoffs
+   */
+  public getNoiseFilters(): NoiseFilterSettings {
+    return WhiteNoiseGenerator.getFilters();
+  }
+
+  /**
+   * Set the heartbeat rate, depth or womb bed and remember them. Applied
+   * live; a new rate takes over on the next beat.
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setHeartbeat(
+    settings: Partial<HeartbeatSettings>,
+    persist: boolean = true
+  ): Promise<void> {
+    try {
+      HeartbeatGenerator.setSettings(settings);
+      if (persist) {
+        await AsyncStorage.setItem(
+          HEARTBEAT_KEY,
+          JSON.stringify(HeartbeatGenerator.getSettings())
+        );
+      }
+    } catch (error) {
+      console.error('Failed to set heartbeat:', error);
+    }
+  }
+
+  /**
+   * Get the current heartbeat rate, depth and womb bed setting
+   */
+  public getHeartbeat(): HeartbeatSettings {
+    return HeartbeatGenerator.getSettings();
+  }
+
+  /**
+   * Turn the rhythmic shush mode on or off, or change its rate (pulses per
+   * second) or depth, and remember it. Pulses everything that plays.
+   * Animations can follow the same rhythm through RhythmClock.
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setRhythm(settings: Partial<RhythmSettings>, persist: boolean = true): Promise<void> {
+    try {
+      RhythmClock.setSettings(settings);
+      if (persist) {
+        await AsyncStorage.setItem(RHYTHM_KEY, JSON.stringify(RhythmClock.getSettings()));
+      }
+    } catch (error) {
+      console.error('Failed to set rhythm:', error);
+    }
+  }
+
+  /**
+   * Get the current rhythmic shush settings
+   */
+  public getRhythm(): RhythmSettings {
+    return RhythmClock.getSettings();
+  }
+
+  /**
+   * Turn the notes animations play when touched on or off, or change their
+   * volume, and remember it
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setInteractionSounds(
+    settings: Partial<ToneSettings>,
+    persist: boolean = true
+  ): Promise<void> {
+    try {
+      ToneSynthesizer.setSettings(settings);
+      if (persist) {
+        await AsyncStorage.setItem(
+          INTERACTION_SOUNDS_KEY,
+          JSON.stringify(ToneSynthesizer.getSettings())
+        );
+      }
+    } catch (error) {
+      console.error('Failed to set interaction sounds:', error);
+    }
+  }
+
+  /**
+   * Get the interaction sound settings
+   */
+  public getInteractionSounds(): ToneSettings {
+    return ToneSynthesizer.getSettings();
+  }
+
+  /**
+   * Play a soft note in response to a touch, mixed under the other sounds.
+   * Does nothing if the parent has turned interaction sounds off.
+   * @param strength How hard the note is struck (0-1)
+   */
+  public async playTone(frequency: number, strength: number = 1): Promise<void> {
+    try {
+      await ToneSynthesizer.playNote(frequency, strength);
+    } catch (error) {
+      console.error('Failed to play tone:', error);
+    }
+  }
+
+  /**
+   * Get the settings of every mixer layer in display order
+   */
+  public getLayers(): LayerInfo[] {
+    return SoundscapeMixer.getLayers();
+  }
+
+  /**
+   * Change a mixer layer's volume, mute or loop setting and remember it.
+   * Layers are the generated sounds plus every sound in the sound library.
+   * Applied live if the mix is playing.
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async updateLayer(
+    id: LayerId,
+    changes: Partial<Omit<LayerState, 'id'>>,
+    persist: boolean = true
+  ): Promise<void> {
+    try {
+      await SoundscapeMixer.updateLayer(id, changes);
+      this.updateState({ sources: this.getAudibleSources() });
+      if (persist) {
+        await this.saveLayers();
+      }
+    } catch (error) {
+      console.error(`Failed to update ${id} layer:`, error);
+    }
+  }
+
+  /**
+   * Add a sound the parent recorded or imported to the library and the mixer
+   * @param switchOn Whether to turn its layer on so it is heard next time the sound plays
+   */
+  public async addLocalSound(sound: SoundConfig, switchOn: boolean = true): Promise<void> {
+    try {
+      await SoundManager.getInstance().addLocalSound(sound);
+      SoundscapeMixer.registerSounds([sound]);
+      if (switchOn) {
+        await this.updateLayer(sound.id, { muted: false });
+      }
+    } catch (error) {
+      console.error('Failed to add local sound:', error);
+    }
+  }
+
+  /**
+   * Take a recorded or imported sound out of the mixer, the lullaby playlist
+   * and the library, and delete its audio file
+   */
+  public async removeLocalSound(id: LayerId): Promise<void> {
+    try {
+      await SoundscapeMixer.unregisterSound(id);
+      const { tracks } = PlaylistPlayer.getSettings();
+      if (tracks.some((track) => track.id === id)) {
+        await this.setPlaylist({ tracks: tracks.filter((track) => track.id !== id) });
+      }
+      await SoundManager.getInstance().removeLocalSound(id);
+      this.updateState({ sources: this.getAudibleSources() });
+      await this.saveLayers();
+    } catch (error) {
+      console.error('Failed to remove local sound:', error);
+    }
+  }
+
+  /**
+   * Change the lullaby playlist, its order, shuffle or repeat, and remember
+   * it. Applied live if the lullabies layer is playing.
+   * @param persist Pass false while the user is still dragging a slider
+   */
+  public async setPlaylist(
+    settings: Partial<PlaylistSettings>,
+    persist: boolean = true
+  ): Promise<void> {
+    try {
+      this.applyPlaylist(settings);
+      // Starts the layer if it is on and was waiting for its first track
+      await SoundscapeMixer.updateLayer('lullabies', {});
+      if (persist) {
+        await AsyncStorage.setItem(PLAYLIST_KEY, JSON.stringify(PlaylistPlayer.getSettings()));
+      }
+    } catch (error) {
+      console.error('Failed to set playlist:', error);
+    }
+  }
+
+  /**
+   * Get the lullaby playlist
+   */
+  public getPlaylist(): PlaylistSettings {
+    return PlaylistPlayer.getSettings();
+  }
+
+  /**
+   * Give the playlist settings to the player, leaving out songs that are no
+   * longer in the library
+   */
+  private applyPlaylist(settings: Partial<PlaylistSettings>): void {
+    const localIds = new Set(SoundManager.getInstance().getLocalSounds().map(({ id }) => id));
+    PlaylistPlayer.setSettings({
+      ...settings,
+      ...(settings.tracks && {
+        tracks: settings.tracks.filter((track) => localIds.has(track.id)),
+      }),
+    });
+  }
+
+  private async saveLayers(): Promise<void> {
+    await AsyncStorage.setItem(MIXER_LAYERS_KEY, JSON.stringify(SoundscapeMixer.getLayerStates()));
+  }
+
+  /**
+   * Get the soundscapes the parent has saved
+   */
+  public async getSoundscapes(): Promise<Soundscape[]> {
+    try {
+      const saved = await AsyncStorage.getItem(SOUNDSCAPES_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Failed to load soundscapes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the current mix under a name, replacing any soundscape with that name
+   */
+  public async saveSoundscape(name: string): Promise<Soundscape[]> {
+    const soundscapes = await this.getSoundscapes();
+    const soundscape: Soundscape = { name: name.trim(), layers: SoundscapeMixer.getLayerStates() };
+    const updated = [
+      ...soundscapes.filter((existing) => existing.name !== soundscape.name),
+      soundscape,
+    ];
+    try {
+      await AsyncStorage.setItem(SOUNDSCAPES_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('Failed to save soundscape:', error);
+      return soundscapes;
+    }
+  }
+
+  /**
+   * Apply a saved soundscape to the mixer
+   * @returns The layers now in effect, or null if no soundscape has that name
+   */
+  public async loadSoundscape(name: string): Promise<LayerInfo[] | null> {
+    const soundscape = (await this.getSoundscapes()).find((saved) => saved.name === name);
+    if (!soundscape) return null;
+    try {
+      await SoundscapeMixer.setLayers(soundscape.layers);
+      this.updateState({ sources: this.getAudibleSources() });
+      await this.saveLayers();
+    } catch (error) {
+      console.error('Failed to load soundscape:', error);
+    }
+    return SoundscapeMixer.getLayers();
+  }
+
+  /**
+   * Switch to the sound an animation comes with for as long as it is on
+   * screen, unless the parent has pinned their own. The parent's saved mix
+   * is left alone, and restoreParentSoundscape puts it back.
+   * @returns Whether the animation's sound was applied
+   */
+  public async applyAnimationSoundscape(soundscape: AnimationSoundscape): Promise<boolean> {
+    if (this.soundPinned) return false;
+    // Kept from the first animation only, so switching between two doesn't lose it
+    const parentMix = this.parentMix ?? {
+      layers: SoundscapeMixer.getLayerStates(),
+      noiseColor: WhiteNoiseGenerator.getColor(),
+    };
+    this.parentMix = parentMix;
+    try {
+      if (isNoiseColor(soundscape.noiseColor)) {
+        await WhiteNoiseGenerator.setColor(soundscape.noiseColor);
+      }
+      // The animation was left while the color was changing
+      if (this.parentMix !== parentMix) return false;
+      await SoundscapeMixer.setLayers(
+        SoundscapeMixer.getLayerStates().map((layer) => {
+          const source = soundscape.sources.find(({ id }) => id === layer.id);
+          return source
+            ? { ...layer, muted: false, volume: Math.max(0, Math.min(1, source.volume)) }
+            : { ...layer, muted: true };
+        })
+      );
+      this.updateState({ sources: this.getAudibleSources() });
+      return true;
+    } catch (error) {
+      console.error('Failed to apply animation soundscape:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Go back to the parent's own mix once an animation's sound is no longer
+   * wanted. Does nothing if no animation's sound was applied.
+   */
+  public async restoreParentSoundscape(): Promise<void> {
+    const { parentMix } = this;
+    if (!parentMix) return;
+    this.parentMix = null;
+    try {
+      await WhiteNoiseGenerator.setColor(parentMix.noiseColor);
+      await SoundscapeMixer.setLayers(parentMix.layers);
+      this.updateState({ sources: this.getAudibleSources() });
+    } catch (error) {
+      console.error('Failed to restore the sound mix:', error);
+    }
+  }
+
+  /**
+   * Keep the parent's mix when an animation starts, instead of switching to
+   * the animation's own sound
+   */
+  public async setSoundPinned(pinned: boolean): Promise<void> {
+    this.soundPinned = pinned;
+    try {
+      await AsyncStorage.setItem(SOUND_PINNED_KEY, pinned.toString());
+    } catch (error) {
+      console.error('Failed to save sound pinning:', error);
+    }
+  }
+
+  public isSoundPinned(): boolean {
+    return this.soundPinned;
+  }
+
+  public async deleteSoundscape(name: string): Promise<Soundscape[]> {
+    const soundscapes = await this.getSoundscapes();
+    const updated = soundscapes.filter((saved) => saved.name !== name);
+    try {
+      await AsyncStorage.setItem(SOUNDSCAPES_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('Failed to delete soundscape:', error);
+      return soundscapes;
+    }
+  }
+
   /**
    * Check if white noise is currently playing
    */
   public isWhiteNoisePlaying(): boolean {
-    return this.isPlaying;
+    return this.state.playing;
   }
 
   /**
@@ -120,8 +1081,14 @@ class AudioManager {
    */
   public async cleanup(): Promise<void> {
     try {
+      this.cancelSleepTimer();
+      this.systemEventSubscriptions.forEach((subscription) => subscription.remove());
+      this.systemEventSubscriptions = [];
+      SystemAudioManager.observeAudioInterruptions(false);
       await this.stopWhiteNoise();
-      await WhiteNoiseGenerator.cleanup();
+      await SoundscapeMixer.cleanup();
+      await ToneSynthesizer.cleanup();
+      await AudioEngine.cleanup();
       this.isInitialized = false;
     } catch (error) {
       console.error('Failed to cleanup AudioManager:', error);
@@ -129,4 +1096,58 @@ class AudioManager {
   }
 }
 
-export default AudioManager.getInstance();
+const audioManager = AudioManager.getInstance();
+export default audioManager;
+
+const subscribeToAudioState = (onChange: () => void) => audioManager.subscribe(onChange);
+const getAudioState = () => audioManager.getState();
+
+/**
+ * The current audio state, re-rendering the component whenever it changes
+ */
+export function useAudioState(): AudioState {
+  return useSyncExternalStore(subscribeToAudioState, getAudioState);
+}
+
+/**
+ * Animated values that follow the sound, for animations that react to it
+ */
+export interface AudioReactiveValues {
+  // Loudness of the mix, from 0 to 1
+  level: Animated.Value;
+  // Swells from 0 to 1 on each heartbeat or shush pulse
+  pulse: Animated.Value;
+}
+
+/**
+ * The level and pulse of what is playing as animated values, glided from
+ * one reading to the next on the native thread so they move smoothly. The
+ * sound is only analysed while a component using this is mounted.
+ */
+export function useAudioReactiveValues(): AudioReactiveValues {
+  const values = useRef<AudioReactiveValues>({
+    level: new Animated.Value(0),
+    pulse: new Animated.Value(0),
+  }).current;
+
+  useEffect(() => {
+    const glide = (value: Animated.Value, toValue: number) =>
+      Animated.timing(value, {
+        toValue,
+        duration: ANALYSIS_INTERVAL_MS,
+        easing: Easing.linear,
+        useNativeDriver: true,
+      });
+
+    const unsubscribe = audioManager.subscribeToAnalysis(({ level, pulse }) => {
+      Animated.parallel([glide(values.level, level), glide(values.pulse, pulse)]).start();
+    });
+    return () => {
+      unsubscribe();
+      values.level.stopAnimation();
+      values.pulse.stopAnimation();
+    };
+  }, [values]);
+
+  return values;
+}
@@ -0,0 +1,208 @@
+import { ComponentType, createElement, useCallback, useEffect, useMemo, useRef } from 'react';
+import { designTokens } from '../styles/designTokens';
+import type { AnimationConfig } from './AnimationManager';
+
+/**
+ * Colours an animation draws with. An animation.json can set any of them
+ * in its `palette`; the rest come from DEFAULT_CALM_PALETTE.
+ */
+export interface CalmPalette {
+  // Fills the screen behind everything else
+  background: string;
+  // The main light drawn on the background, like stars or bubbles
+  foreground: string;
+  // Colours for shapes, used in turn
+  accents: string[];
+}
+
+export const DEFAULT_CALM_PALETTE: CalmPalette = {
+  background: designTokens.colors.aliceBlue,
+  foreground: designTokens.colors.white,
+  accents: [
+    designTokens.colors.primary,
+    designTokens.colors.calmGreen,
+    designTokens.colors.peacefulPurple,
+    designTokens.colors.happyYellow,
+    designTokens.colors.skyBlue,
+  ],
+};
+
+/**
+ * What the animation screen gives every animation, and what it expects back.
+ * An animation's component takes these props, whether it lives in its own
+ * animation.tsx or is one of the Lottie and keyframe renderers.
+ */
+export interface CalmAnimationProps {
+  // Size of the area to draw in, in pixels
+  width: number;
+  height: number;
+  // How lively to be, from 0 (nearly still) to 1 (as designed). It falls
+  // over the last minutes of the sleep timer; each animation decides whether
+  // that means slower, dimmer or fewer things moving
+  intensity: number;
+  palette: CalmPalette;
+  // The app is in the background: stop every loop and timer until it isn't
+  paused: boolean;
+  // The phone is set to reduce motion: leave out spinning, zooming and swelling
+  reducedMotion: boolean;
+  // The session is ending and the screen is fading out: settle down
+  windingDown: boolean;
+  // The animation.json the animation was loaded from
+  config: AnimationConfig;
+  // Call once the animation is drawn and moving
+  onReady: () => void;
+  // Call once the animation has stopped for `paused`, and once it moves again
+  onPause: () => void;
+  onResume: () => void;
+  // Call once the animation has settled for `windingDown`
+  onWindDown: () => void;
+  // Pass on taps the animation handles itself, in page coordinates, so the
+  // unlock corners keep working
+  onBackgroundTap?: (x: number, y: number) => void;
+}
+
+type LifecycleCallback = 'onReady' | 'onPause' | 'onResume' | 'onWindDown';
+
+// How long an animation has to call back after starting or a prop change
+const CALLBACK_CHECK_DELAY_MS = 5000;
+// Shorter for winding down, as the screen closes a few seconds after asking
+const WIND_DOWN_CHECK_DELAY_MS = 3000;
+
+/**
+ * Get the palette an animation draws with
+ */
+export function getAnimationPalette(config: AnimationConfig): CalmPalette {
+  return { ...DEFAULT_CALM_PALETTE, ...config.palette };
+}
+
+/**
+ * Report `paused` and `windingDown` changes back to the screen through
+ * onPause, onResume and onWindDown
+ * @returns Whether the animation should be moving
+ */
+export function useCalmLifecycle({
+  paused,
+  windingDown,
+  onPause,
+  onResume,
+  onWindDown,
+}: Pick<
+  CalmAnimationProps,
+  'paused' | 'windingDown' | 'onPause' | 'onResume' | 'onWindDown'
+>): boolean {
+  // Latest callbacks, so a parent passing new ones doesn't report a change twice
+  const callbacks = useRef({ onPause, onResume, onWindDown });
+  useEffect(() => {
+    callbacks.current = { onPause, onResume, onWindDown };
+  }, [onPause, onResume, onWindDown]);
+
+  const wasPaused = useRef(paused);
+  useEffect(() => {
+    if (paused === wasPaused.current) return;
+    wasPaused.current = paused;
+    if (paused) {
+      callbacks.current.onPause();
+    } else {
+      callbacks.current.onResume();
+    }
+  }, [paused]);
+
+  useEffect(() => {
+    if (windingDown) {
+      callbacks.current.onWindDown();
+    }
+  }, [windingDown]);
+
+  return !paused && !windingDown;
+}
+
+/**
+ * Wrap an animation so that, in development builds, it warns when the
+ * component doesn't call back as CalmAnimationProps asks: onReady after
+ * mounting, onPause or onResume after `paused` changes, and onWindDown once
+ * `windingDown` is set. The component itself is rendered as it is.
+ * @param name How the animation is named in the warnings
+ */
+export function withCalmAnimationCheck(
+  Component: ComponentType<CalmAnimationProps>,
+  name: string
+): ComponentType<CalmAnimationProps> {
+  if (!__DEV__) return Component;
+
+  const CheckedAnimation = (props: CalmAnimationProps) => {
+    const { paused, windingDown, onReady, onPause, onResume, onWindDown } = props;
+    // How often the animation has called back, and how often it had by the
+    // end of the previous render's effects
+    const calls = useRef<Record<LifecycleCallback, number>>({
+      onReady: 0,
+      onPause: 0,
+      onResume: 0,
+      onWindDown: 0,
+    });
+    const callsBefore = useRef({ ...calls.current });
+    const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+    // The animation's own effects run before these, so a callback made in
+    // response to this render is already counted when the baseline is read
+    const expectCall = useCallback(
+      (callback: LifecycleCallback, reason: string, delay: number = CALLBACK_CHECK_DELAY_MS) => {
+        const baseline = callsBefore.current[callback];
+        const timer = setTimeout(() => {
+          timers.current.delete(timer);
+          if (calls.current[callback] <= baseline) {
+            console.warn(`Animation ${name} never called ${callback} ${reason}`);
+          }
+        }, delay);
+        timers.current.add(timer);
+      },
+      []
+    );
+
+    useEffect(() => {
+      const pending = timers.current;
+      expectCall('onReady', 'after it started');
+      return () => pending.forEach(clearTimeout);
+    }, [expectCall]);
+
+    const wasPaused = useRef(paused);
+    useEffect(() => {
+      if (paused === wasPaused.current) return;
+      wasPaused.current = paused;
+      expectCall(paused ? 'onPause' : 'onResume', `when paused became ${paused}`);
+    }, [paused, expectCall]);
+
+    useEffect(() => {
+      if (windingDown) {
+        expectCall('onWindDown', 'when it was asked to wind down', WIND_DOWN_CHECK_DELAY_MS);
+      }
+    }, [windingDown, expectCall]);
+
+    useEffect(() => {
+      callsBefore.current = { ...calls.current };
+    });
+
+    const callbacks = useMemo(() => {
+      const counted = (callback: LifecycleCallback, call: () => void) => () => {
+        calls.current[callback]++;
+        call();
+      };
+      return {
+        onReady: counted('onReady', onReady),
+        onPause: counted('onPause', onPause),
+        onResume: counted('onResume', onResume),
+        onWindDown: counted('onWindDown', onWindDown),
+      };
+    }, [onReady, onPause, onResume, onWindDown]);
+
+    return createElement(Component, { ...props, ...callbacks });
+  };
+  CheckedAnimation.displayName = `Checked(${name})`;
+  return CheckedAnimation;
+}
+
+export default {
+  DEFAULT_CALM_PALETTE,
+  getAnimationPalette,
+  useCalmLifecycle,
+  withCalmAnimationCheck,
+};
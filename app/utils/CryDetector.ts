@@ -0,0 +1,144 @@
+import { meanSquare } from './AudioDSP';
+
+/**
+ * Level-and-duration detector for sustained crying or other loud sound.
+ *
+ * It keeps a slowly moving estimate of the room's background level, which
+ * includes the app's own sound, and reports when the level stays well above
+ * it for long enough. Short pauses, like a baby catching their breath, don't
+ * reset the count; a single bang or a cough never lasts long enough.
+ *
+ * The detector only sees plain blocks of samples and has no idea where they
+ * came from, so it can be fed from the microphone or from a recording.
+ */
+
+export type CrySensitivity = 'low' | 'medium' | 'high';
+
+export interface CryDetectorOptions {
+  // How far above the background a block must be to count as loud, in dB
+  thresholdDb: number;
+  // How long loud sound must last before it is reported, in seconds
+  minDurationSeconds: number;
+  // Quiet gaps shorter than this don't end a stretch of loud sound, in seconds
+  maxGapSeconds: number;
+  // Time after a detection before the next one can be reported, in seconds
+  cooldownSeconds: number;
+}
+
+export const CRY_SENSITIVITY_OPTIONS: Record<CrySensitivity, CryDetectorOptions> = {
+  low: { thresholdDb: 20, minDurationSeconds: 8, maxGapSeconds: 1.5, cooldownSeconds: 60 },
+  medium: { thresholdDb: 15, minDurationSeconds: 5, maxGapSeconds: 1.5, cooldownSeconds: 60 },
+  high: { thresholdDb: 10, minDurationSeconds: 3, maxGapSeconds: 1.5, cooldownSeconds: 60 },
+};
+
+export interface CryDetection {
+  // How long the loud sound had lasted when it was reported, in seconds
+  durationSeconds: number;
+  // How far above the background it was, on average, in dB
+  levelAboveBackgroundDb: number;
+}
+
+// How much louder a 'louder' response plays than the level between responses, about 3 dB
+export const CRY_RESPONSE_VOLUME_BOOST = 1.4;
+
+/**
+ * Volumes to play at between responses to crying and during one, when the
+ * response is to come up in volume. The response is always
+ * CRY_RESPONSE_VOLUME_BOOST louder; when the parent's volume leaves no room
+ * above it, the sound rests that much below it instead.
+ */
+export function getCryResponseVolumes(normalVolume: number): {
+  resting: number;
+  responding: number;
+} {
+  const responding = Math.min(1, normalVolume * CRY_RESPONSE_VOLUME_BOOST);
+  return { resting: responding / CRY_RESPONSE_VOLUME_BOOST, responding };
+}
+
+// Time constants for the background level: it follows the room down quickly
+// but creeps up slowly, so loud sound doesn't become the new normal
+const BACKGROUND_FALL_SECONDS = 3;
+const BACKGROUND_RISE_SECONDS = 30;
+// Quietest level considered, in dB full scale, so silence has a finite level
+const LEVEL_FLOOR_DB = -100;
+
+function blockLevelDb(samples: Float32Array): number {
+  return Math.max(LEVEL_FLOOR_DB, 10 * Math.log10(meanSquare(samples)));
+}
+
+export default class CryDetector {
+  private options: CryDetectorOptions;
+  private backgroundDb: number | null = null;
+  private loudSeconds: number = 0;
+  private loudLevelTotal: number = 0;
+  private gapSeconds: number = 0;
+  private cooldownRemaining: number = 0;
+
+  constructor(options: Partial<CryDetectorOptions> = {}) {
+    this.options = { ...CRY_SENSITIVITY_OPTIONS.medium, ...options };
+  }
+
+  /**
+   * Analyze the next block of audio
+   * @returns A detection when sustained loud sound has just been confirmed, otherwise null
+   */
+  public process(samples: Float32Array, sampleRate: number): CryDetection | null {
+    const seconds = samples.length / sampleRate;
+    const levelDb = blockLevelDb(samples);
+    this.cooldownRemaining = Math.max(0, this.cooldownRemaining - seconds);
+
+    if (this.backgroundDb === null) {
+      this.backgroundDb = levelDb;
+      return null;
+    }
+
+    const aboveDb = levelDb - this.backgroundDb;
+    if (aboveDb >= this.options.thresholdDb) {
+      this.loudSeconds += seconds;
+      this.loudLevelTotal += aboveDb * seconds;
+      this.gapSeconds = 0;
+    } else {
+      this.updateBackground(levelDb, seconds);
+      if (this.loudSeconds > 0) {
+        this.gapSeconds += seconds;
+        if (this.gapSeconds > this.options.maxGapSeconds) {
+          this.endLoudStretch();
+        }
+      }
+    }
+
+    if (this.loudSeconds >= this.options.minDurationSeconds && this.cooldownRemaining === 0) {
+      const detection = {
+        durationSeconds: this.loudSeconds,
+        levelAboveBackgroundDb: this.loudLevelTotal / this.loudSeconds,
+      };
+      this.endLoudStretch();
+      this.cooldownRemaining = this.options.cooldownSeconds;
+      return detection;
+    }
+    return null;
+  }
+
+  /**
+   * Forget the room and any loud sound so far, e.g. when a new session starts
+   */
+  public reset(): void {
+    this.backgroundDb = null;
+    this.endLoudStretch();
+    this.cooldownRemaining = 0;
+  }
+
+  private updateBackground(levelDb: number, seconds: number): void {
+    const background = this.backgroundDb ?? levelDb;
+    const timeConstant =
+      levelDb < background ? BACKGROUND_FALL_SECONDS : BACKGROUND_RISE_SECONDS;
+    const amount = 1 - Math.exp(-seconds / timeConstant);
+    this.backgroundDb = background + (levelDb - background) * amount;
+  }
+
+  private endLoudStretch(): void {
+    this.loudSeconds = 0;
+    this.loudLevelTotal = 0;
+    this.gapSeconds = 0;
+  }
+}
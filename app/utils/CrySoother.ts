@@ -0,0 +1,223 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import AudioManager from './AudioManager';
+import CryDetector, {
+  CRY_SENSITIVITY_OPTIONS,
+  CrySensitivity,
+  getCryResponseVolumes,
+} from './CryDetector';
+import Microphone from './Microphone';
+
+const CRY_SOOTHING_KEY = 'crySoothing';
+
+/**
+ * Gentle things the app can do when the baby cries during a session:
+ * - louder: come up in volume for a while when crying starts, then settle
+ *   back. At full volume there is no room above it, so the sound rests a
+ *   little below the parent's volume until then
+ * - shush: turn on the rhythmic shush for a while
+ * - restartTimer: start the sleep timer over so the session doesn't end mid-cry
+ */
+export type CryAction = 'louder' | 'shush' | 'restartTimer';
+
+export interface CrySoothingSettings {
+  enabled: boolean;
+  sensitivity: CrySensitivity;
+  actions: Record<CryAction, boolean>;
+}
+
+export const DEFAULT_CRY_SOOTHING_SETTINGS: CrySoothingSettings = {
+  enabled: false,
+  sensitivity: 'medium',
+  actions: { louder: true, shush: true, restartTimer: false },
+};
+
+/**
+ * Hooks into the session screen for actions only it can carry out
+ */
+export interface CrySoothingSession {
+  restartSleepTimer: () => void;
+}
+
+// How long a response lasts before things go back to how they were, in seconds
+const RESPONSE_SECONDS = 45;
+// Time constant for volume changes, so they swell rather than jump
+const VOLUME_GLIDE_SECONDS = 2;
+
+/**
+ * CrySoother listens through the microphone during a session and responds
+ * to sustained crying with the actions the parent has chosen. Everything is
+ * worked out on the device as the audio arrives; nothing is recorded.
+ */
+class CrySoother {
+  private static instance: CrySoother;
+  private settings: CrySoothingSettings = DEFAULT_CRY_SOOTHING_SETTINGS;
+  private isLoaded: boolean = false;
+  private detector: CryDetector = new CryDetector();
+  private session: CrySoothingSession | null = null;
+  // Actions chosen when the session started, so changing settings mid-session can't strand them
+  private actions: Record<CryAction, boolean> = DEFAULT_CRY_SOOTHING_SETTINGS.actions;
+  private stopListening: (() => void) | null = null;
+  private unsubscribeFromAudio: (() => void) | null = null;
+  // Volume before the session started, and whether the shush was already on
+  private normalVolume: number = 1;
+  private shushWasOn: boolean = false;
+  private responseTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): CrySoother {
+    if (!CrySoother.instance) {
+      CrySoother.instance = new CrySoother();
+    }
+    return CrySoother.instance;
+  }
+
+  public async loadSettings(): Promise<CrySoothingSettings> {
+    if (this.isLoaded) return this.getSettings();
+    try {
+      const saved = await AsyncStorage.getItem(CRY_SOOTHING_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        this.settings = {
+          ...DEFAULT_CRY_SOOTHING_SETTINGS,
+          ...parsed,
+          actions: { ...DEFAULT_CRY_SOOTHING_SETTINGS.actions, ...parsed.actions },
+        };
+      }
+      this.isLoaded = true;
+    } catch (error) {
+      console.error('Failed to load cry soothing settings:', error);
+    }
+    return this.getSettings();
+  }
+
+  public getSettings(): CrySoothingSettings {
+    return { ...this.settings, actions: { ...this.settings.actions } };
+  }
+
+  /**
+   * Change the settings and remember them. Takes effect from the next session.
+   */
+  public async setSettings(settings: Partial<CrySoothingSettings>): Promise<void> {
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      actions: { ...this.settings.actions, ...settings.actions },
+    };
+    try {
+      await AsyncStorage.setItem(CRY_SOOTHING_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save cry soothing settings:', error);
+    }
+  }
+
+  /**
+   * Start listening for crying, if the parent has turned it on
+   * @returns Whether listening started
+   */
+  public async start(session: CrySoothingSession): Promise<boolean> {
+    if (this.session) return false;
+    // Claimed before anything is awaited, so stop() can cancel a start in progress
+    this.session = session;
+    await this.loadSettings();
+    if (this.session !== session) return false;
+    if (!this.settings.enabled) {
+      this.session = null;
+      return false;
+    }
+
+    this.actions = { ...this.settings.actions };
+    this.normalVolume = AudioManager.getState().volume;
+    this.shushWasOn = AudioManager.getRhythm().enabled;
+    this.detector = new CryDetector(CRY_SENSITIVITY_OPTIONS[this.settings.sensitivity]);
+    const stopListening = await Microphone.listen((samples, sampleRate) => {
+      if (this.detector.process(samples, sampleRate)) {
+        this.respond();
+      }
+    });
+    if (!stopListening || this.session !== session) {
+      stopListening?.();
+      if (this.session === session) {
+        this.session = null;
+      }
+      return false;
+    }
+    this.stopListening = stopListening;
+
+    // The sound starting or stopping changes the room level; learn it afresh
+    let wasPlaying = AudioManager.getState().playing;
+    this.unsubscribeFromAudio = AudioManager.subscribe(({ playing }) => {
+      if (playing !== wasPlaying) {
+        wasPlaying = playing;
+        this.detector.reset();
+      }
+    });
+
+    if (this.actions.louder) {
+      const { resting } = getCryResponseVolumes(this.normalVolume);
+      AudioManager.setVolume(resting, VOLUME_GLIDE_SECONDS);
+    }
+    return true;
+  }
+
+  /**
+   * Stop listening and put the sound back the way it was
+   */
+  public stop(): void {
+    this.session = null;
+    // Nothing else has happened yet if a start was still in progress
+    if (!this.stopListening) return;
+    this.stopListening();
+    this.stopListening = null;
+    this.unsubscribeFromAudio?.();
+    this.unsubscribeFromAudio = null;
+
+    if (this.responseTimeout) {
+      clearTimeout(this.responseTimeout);
+      this.responseTimeout = null;
+    }
+    if (this.actions.louder) {
+      AudioManager.setVolume(this.normalVolume, VOLUME_GLIDE_SECONDS);
+    }
+    if (this.actions.shush && !this.shushWasOn) {
+      AudioManager.setRhythm({ enabled: false }, false);
+    }
+  }
+
+  private respond(): void {
+    const { actions } = this;
+    if (actions.louder) {
+      AudioManager.setVolume(
+        getCryResponseVolumes(this.normalVolume).responding,
+        VOLUME_GLIDE_SECONDS
+      );
+    }
+    if (actions.shush) {
+      AudioManager.setRhythm({ enabled: true }, false);
+    }
+    if (actions.restartTimer) {
+      this.session?.restartSleepTimer();
+    }
+
+    // Crying again during a response keeps it going for longer
+    if (this.responseTimeout) {
+      clearTimeout(this.responseTimeout);
+    }
+    this.responseTimeout = setTimeout(() => this.endResponse(), RESPONSE_SECONDS * 1000);
+  }
+
+  private endResponse(): void {
+    this.responseTimeout = null;
+    const { actions } = this;
+    if (actions.louder) {
+      const { resting } = getCryResponseVolumes(this.normalVolume);
+      AudioManager.setVolume(resting, VOLUME_GLIDE_SECONDS);
+    }
+    if (actions.shush && !this.shushWasOn) {
+      AudioManager.setRhythm({ enabled: false }, false);
+    }
+  }
+}
+
+const crySoother = CrySoother.getInstance();
+export default crySoother;
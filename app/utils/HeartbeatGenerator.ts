@@ -0,0 +1,307 @@
+import {
+  AudioBuffer,
+  AudioBufferSourceNode,
+  BiquadFilterNode,
+  GainNode,
+} from 'react-native-audio-api';
+import AudioEngine, { createFadeCurve, scheduleFade } from './AudioEngine';
+import { clampHeartbeatBpm, synthesizeHeartbeat } from './HeartbeatSynthesis';
+
+const STOP_FADE_DURATION = 1000; // 1 second fade when starting or stopping
+// Short crossfade used when switching buffers on a beat boundary, in seconds
+const SWITCH_FADE_SECONDS = 0.05;
+
+// Muffling low-pass cutoff at depth 0 and depth 1; swept exponentially between them
+const SHALLOW_CUTOFF_HZ = 1200;
+const DEEP_CUTOFF_HZ = 150;
+// Time constant for gliding depth changes so slider moves don't click
+const DEPTH_GLIDE_SECONDS = 0.05;
+
+export interface HeartbeatSettings {
+  // Heart rate in beats per minute
+  bpm: number;
+  // How muffled the heartbeat sounds, from 0 (close) to 1 (heard through the womb)
+  depth: number;
+  // Whether the womb "whoosh" plays under the beats
+  womb: boolean;
+}
+
+export const DEFAULT_HEARTBEAT_SETTINGS: HeartbeatSettings = {
+  bpm: 68,
+  depth: 0.6,
+  womb: true,
+};
+
+/**
+ * A looping heartbeat buffer together with the gain used to fade it in and out
+ */
+interface HeartbeatVoice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  // Audio clock time of the first beat, and the time between beats
+  startTime: number;
+  beatSeconds: number;
+}
+
+/**
+ * HeartbeatGenerator synthesizes a low, muffled heartbeat on the device,
+ * optionally over a womb bed, and loops it on the audio thread. Nothing is
+ * shipped as a recording.
+ *
+ * Changing the rate or the womb bed renders a new buffer and switches to it
+ * on the next beat, so there is never a doubled or skipped beat; depth is a
+ * live low-pass filter.
+ */
+class HeartbeatGenerator {
+  private static instance: HeartbeatGenerator;
+  private voice: HeartbeatVoice | null = null;
+  private muffle: BiquadFilterNode | null = null;
+  private output: GainNode | null = null;
+  private settings: HeartbeatSettings = { ...DEFAULT_HEARTBEAT_SETTINGS };
+  private isPlaying: boolean = false;
+  // Changes whenever playback starts or stops, so a start still loading can tell it was cancelled
+  private playId: number = 0;
+  private isInitialized: boolean = false;
+  private volume: number = 1.0;
+
+  private constructor() {}
+
+  public static getInstance(): HeartbeatGenerator {
+    if (!HeartbeatGenerator.instance) {
+      HeartbeatGenerator.instance = new HeartbeatGenerator();
+    }
+    return HeartbeatGenerator.instance;
+  }
+
+  public async initialize(): Promise<boolean> {
+    if (this.isInitialized) return true;
+    try {
+      if (!(await AudioEngine.initialize())) return false;
+
+      const context = AudioEngine.getContext()!;
+      this.output = context.createGain();
+      this.output.gain.value = this.volume;
+      this.output.connect(AudioEngine.getOutput()!);
+
+      this.muffle = context.createBiquadFilter();
+      this.muffle.type = 'lowpass';
+      this.muffle.frequency.value = this.getCutoff();
+      this.muffle.connect(this.output);
+
+      this.isInitialized = true;
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize heartbeat:', error);
+      return false;
+    }
+  }
+
+  private getCutoff(): number {
+    return SHALLOW_CUTOFF_HZ * Math.pow(DEEP_CUTOFF_HZ / SHALLOW_CUTOFF_HZ, this.settings.depth);
+  }
+
+  /**
+   * Render a looping buffer for the current settings
+   */
+  private renderBuffer(): AudioBuffer | null {
+    const context = AudioEngine.getContext();
+    if (!context) return null;
+    try {
+      const samples = synthesizeHeartbeat(
+        this.settings.bpm,
+        this.settings.womb,
+        context.sampleRate
+      );
+      const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+      buffer.copyToChannel(samples, 0);
+      return buffer;
+    } catch (error) {
+      console.error('Failed to synthesize heartbeat:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start looping a buffer at `when` (default now), fading in over `fadeSeconds`
+   */
+  private startVoice(
+    buffer: AudioBuffer,
+    fadeSeconds: number,
+    when?: number
+  ): HeartbeatVoice | null {
+    const context = AudioEngine.getContext();
+    if (!context || !this.muffle) return null;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    source.connect(gain);
+    gain.connect(this.muffle);
+
+    const startTime = when ?? context.currentTime;
+    source.start(startTime);
+    gain.gain.setValueCurveAtTime(createFadeCurve('in'), startTime, fadeSeconds);
+
+    // Beats are a whole number of samples apart, so measure them the same way
+    const beatSeconds =
+      Math.round((60 / this.settings.bpm) * buffer.sampleRate) / buffer.sampleRate;
+    return { source, gain, startTime, beatSeconds };
+  }
+
+  /**
+   * Fade a voice out over `fadeMillis` and release it once silent
+   */
+  private releaseVoice(voice: HeartbeatVoice, fadeMillis: number) {
+    const context = AudioEngine.getContext();
+    if (!context) return;
+    scheduleFade(voice.gain.gain, 'out', fadeMillis / 1000);
+    voice.source.stop(context.currentTime + fadeMillis / 1000);
+    this.disconnectWhenEnded(voice);
+  }
+
+  private disconnectWhenEnded(voice: HeartbeatVoice) {
+    voice.source.onended = () => {
+      voice.source.disconnect();
+      voice.gain.disconnect();
+    };
+  }
+
+  public async play(): Promise<boolean> {
+    if (this.isPlaying) return true;
+    // Claimed before anything is awaited, so a stop() meanwhile can cancel it
+    this.isPlaying = true;
+    const playId = ++this.playId;
+    const initialized = await this.initialize();
+    if (playId !== this.playId) return false;
+    if (!initialized) {
+      this.isPlaying = false;
+      return false;
+    }
+    await AudioEngine.resume();
+    if (playId !== this.playId) return false;
+
+    const buffer = this.renderBuffer();
+    this.voice = buffer && this.startVoice(buffer, STOP_FADE_DURATION / 1000);
+    if (!this.voice) {
+      this.isPlaying = false;
+      return false;
+    }
+    this.reportLevel();
+    return true;
+  }
+
+  public async stop(): Promise<boolean> {
+    if (!this.isPlaying) return true;
+    this.isPlaying = false;
+    this.playId++;
+    this.reportLevel();
+    if (this.voice) {
+      this.releaseVoice(this.voice, STOP_FADE_DURATION);
+      this.voice = null;
+    }
+    return true;
+  }
+
+  /**
+   * Change the rate, depth or womb bed. Applied live if the heartbeat is playing.
+   */
+  public setSettings(settings: Partial<HeartbeatSettings>): void {
+    const previous = this.settings;
+    this.settings = {
+      ...previous,
+      ...settings,
+      bpm: clampHeartbeatBpm(settings.bpm ?? previous.bpm),
+      depth: Math.max(0, Math.min(1, settings.depth ?? previous.depth)),
+    };
+
+    if (this.muffle && this.settings.depth !== previous.depth) {
+      this.muffle.frequency.setTargetAtTime(
+        this.getCutoff(),
+        AudioEngine.getCurrentTime(),
+        DEPTH_GLIDE_SECONDS
+      );
+    }
+
+    const needsRender =
+      this.settings.bpm !== previous.bpm || this.settings.womb !== previous.womb;
+    if (needsRender && this.isPlaying && this.voice) {
+      this.switchVoice(this.voice);
+    }
+  }
+
+  /**
+   * Replace a playing voice with one rendered from the current settings.
+   * The switch happens just before the old voice's next beat, where it is
+   * at its quietest, and the new voice starts on that beat.
+   */
+  private switchVoice(current: HeartbeatVoice) {
+    const context = AudioEngine.getContext();
+    const buffer = this.renderBuffer();
+    if (!context || !buffer) return;
+
+    const { startTime, beatSeconds } = current;
+    const beatsSoFar = Math.ceil((context.currentTime - startTime) / beatSeconds);
+    let nextBeat = startTime + beatsSoFar * beatSeconds;
+    // Leave enough time for the old voice to fade out before the beat
+    if (nextBeat - context.currentTime < SWITCH_FADE_SECONDS * 2) {
+      nextBeat += beatSeconds;
+    }
+
+    const next = this.startVoice(buffer, SWITCH_FADE_SECONDS, nextBeat);
+    if (!next) return;
+
+    const fadeStart = nextBeat - SWITCH_FADE_SECONDS;
+    current.gain.gain.cancelScheduledValues(context.currentTime);
+    current.gain.gain.setValueCurveAtTime(createFadeCurve('out'), fadeStart, SWITCH_FADE_SECONDS);
+    current.source.stop(nextBeat);
+    this.disconnectWhenEnded(current);
+    this.voice = next;
+  }
+
+  public getSettings(): HeartbeatSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Position between one beat and the next, from 0 up to 1, read from the
+   * audio clock. The thump is heard at 0.
+   * @returns The position, or null while the heartbeat isn't playing
+   */
+  public getBeatPhase(): number | null {
+    if (!this.isPlaying || !this.voice) return null;
+    const { startTime, beatSeconds } = this.voice;
+    const elapsed = (AudioEngine.getCurrentTime() - startTime) / beatSeconds;
+    return elapsed - Math.floor(elapsed);
+  }
+
+  public async setVolume(volume: number): Promise<void> {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.output) {
+      this.output.gain.value = this.volume;
+    }
+    this.reportLevel();
+  }
+
+  // Let the engine keep the whole mix under the cap
+  private reportLevel() {
+    AudioEngine.setSourceLevel(this, this.isPlaying ? this.volume : 0);
+  }
+
+  public isCurrentlyPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.stop();
+    this.muffle?.disconnect();
+    this.muffle = null;
+    this.output?.disconnect();
+    this.output = null;
+    this.isInitialized = false;
+  }
+}
+
+export default HeartbeatGenerator.getInstance();
@@ -0,0 +1,115 @@
+import { synthesizeNoise } from './NoiseSynthesis';
+
+/**
+ * Procedural heartbeat synthesis used by the heartbeat generator.
+ *
+ * A few seconds of "lub-dub" beats are rendered at an exact whole number of
+ * beats, so the buffer loops on the audio thread in time with itself. The
+ * optional womb bed is low noise that swells with every beat, like blood
+ * flow heard from inside.
+ */
+
+export const MIN_HEARTBEAT_BPM = 60;
+export const MAX_HEARTBEAT_BPM = 80;
+
+// Render at least this much audio so small per-beat variations don't repeat noticeably
+const MIN_RENDER_SECONDS = 8;
+// Time from the start of "lub" to the start of "dub"; barely changes with heart rate
+const DUB_DELAY_SECONDS = 0.28;
+// Every rendering is scaled to the same peak so changing the rate doesn't jump in level
+const TARGET_PEAK = 0.8;
+// Level of the womb bed between beats and at the height of each swell
+const WOMB_BASE_LEVEL = 0.12;
+const WOMB_SWELL_LEVEL = 0.35;
+// How quickly the swell after each beat dies away, in seconds
+const WOMB_SWELL_DECAY = 0.25;
+
+/**
+ * One heart sound: a short sine thump that drops in pitch as it decays
+ */
+interface Thump {
+  startHz: number;
+  endHz: number;
+  gain: number;
+  // Decay time constant in seconds
+  decay: number;
+}
+
+const LUB: Thump = { startHz: 65, endHz: 40, gain: 1, decay: 0.045 };
+const DUB: Thump = { startHz: 85, endHz: 55, gain: 0.6, decay: 0.03 };
+const THUMP_ATTACK_SECONDS = 0.006;
+
+export function clampHeartbeatBpm(bpm: number): number {
+  return Math.max(MIN_HEARTBEAT_BPM, Math.min(MAX_HEARTBEAT_BPM, Math.round(bpm)));
+}
+
+/**
+ * Add a thump to `output` starting at sample `start`
+ */
+function addThump(output: Float32Array, start: number, thump: Thump, sampleRate: number): void {
+  const length = Math.min(output.length - start, Math.floor(thump.decay * 8 * sampleRate));
+  let phase = 0;
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const attack = Math.min(1, t / THUMP_ATTACK_SECONDS);
+    const envelope = attack * Math.exp(-t / thump.decay);
+    const frequency = thump.endHz + (thump.startHz - thump.endHz) * Math.exp(-t / thump.decay);
+    phase += (2 * Math.PI * frequency) / sampleRate;
+    output[start + i] += thump.gain * envelope * Math.sin(phase);
+  }
+}
+
+/**
+ * Render a seamlessly looping heartbeat
+ * @param bpm Heart rate in beats per minute
+ * @param womb Whether to include the womb bed under the beats
+ * @param sampleRate Sample rate of the audio context
+ */
+export function synthesizeHeartbeat(
+  bpm: number,
+  womb: boolean,
+  sampleRate: number
+): Float32Array {
+  const beatLength = Math.round((60 / clampHeartbeatBpm(bpm)) * sampleRate);
+  const beats = Math.ceil((MIN_RENDER_SECONDS * sampleRate) / beatLength);
+  const output = new Float32Array(beats * beatLength);
+  const dubDelay = Math.round(DUB_DELAY_SECONDS * sampleRate);
+
+  for (let beat = 0; beat < beats; beat++) {
+    // A little variation between beats keeps it from sounding mechanical
+    const variation = 0.9 + Math.random() * 0.1;
+    const start = beat * beatLength;
+    addThump(output, start, { ...LUB, gain: LUB.gain * variation }, sampleRate);
+    addThump(output, start + dubDelay, { ...DUB, gain: DUB.gain * variation }, sampleRate);
+  }
+
+  if (womb) {
+    const bed = synthesizeNoise('brown', sampleRate, output.length / sampleRate);
+    for (let i = 0; i < output.length; i++) {
+      const sinceBeat = (i % beatLength) / sampleRate;
+      const level = WOMB_BASE_LEVEL + WOMB_SWELL_LEVEL * Math.exp(-sinceBeat / WOMB_SWELL_DECAY);
+      // The bed is already a seamless loop, so wrapping it keeps the seam clean
+      output[i] += level * bed[i % bed.length];
+    }
+  }
+
+  let peak = 0;
+  for (let i = 0; i < output.length; i++) {
+    peak = Math.max(peak, Math.abs(output[i]));
+  }
+  if (peak > 0) {
+    const scale = TARGET_PEAK / peak;
+    for (let i = 0; i < output.length; i++) {
+      output[i] *= scale;
+    }
+  }
+  return output;
+}
+
+export default {
+  MIN_HEARTBEAT_BPM,
+  MAX_HEARTBEAT_BPM,
+  clampHeartbeatBpm,
+  synthesizeHeartbeat,
+};
@@ -0,0 +1,109 @@
+import { AudioRecorder, AudioManager as SystemAudioManager } from 'react-native-audio-api';
+import AudioManager from './AudioManager';
+
+const SAMPLE_RATE = 44100;
+// Deliver audio in blocks of a tenth of a second
+const BLOCK_LENGTH = SAMPLE_RATE / 10;
+
+/**
+ * Receives each block of microphone audio as it arrives. Blocks are only
+ * valid for the duration of the call and must not be kept.
+ */
+export type MicrophoneListener = (samples: Float32Array, sampleRate: number) => void;
+
+/**
+ * Microphone shares the device microphone between the features that listen
+ * to the room. Audio is handed to listeners block by block and then
+ * dropped: nothing is recorded, stored or sent anywhere.
+ *
+ * The microphone only runs while someone is listening, and asks for
+ * permission the first time it is needed.
+ */
+class Microphone {
+  private static instance: Microphone;
+  private recorder: AudioRecorder | null = null;
+  private listeners: Set<MicrophoneListener> = new Set();
+  private isRunning: boolean = false;
+
+  private constructor() {}
+
+  public static getInstance(): Microphone {
+    if (!Microphone.instance) {
+      Microphone.instance = new Microphone();
+    }
+    return Microphone.instance;
+  }
+
+  /**
+   * Ask for microphone access if it hasn't been granted yet
+   * @returns Whether the microphone can be used
+   */
+  public async requestPermission(): Promise<boolean> {
+    try {
+      const status = await SystemAudioManager.requestRecordingPermissions();
+      return status === 'Granted';
+    } catch (error) {
+      console.error('Failed to request microphone permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start receiving microphone audio
+   * @returns A function that stops listening, or null if the microphone
+   * isn't available
+   */
+  public async listen(listener: MicrophoneListener): Promise<(() => void) | null> {
+    if (!(await this.requestPermission())) return null;
+
+    this.listeners.add(listener);
+    if (!this.start()) {
+      this.listeners.delete(listener);
+      return null;
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private start(): boolean {
+    if (this.isRunning) return true;
+    try {
+      AudioManager.setMicrophoneActive(true);
+      if (!this.recorder) {
+        this.recorder = new AudioRecorder({
+          sampleRate: SAMPLE_RATE,
+          bufferLengthInSamples: BLOCK_LENGTH,
+        });
+        this.recorder.onAudioReady(({ buffer }) => {
+          const samples = buffer.getChannelData(0);
+          this.listeners.forEach((listener) => listener(samples, buffer.sampleRate));
+        });
+      }
+      this.recorder.start();
+      this.isRunning = true;
+      return true;
+    } catch (error) {
+      console.error('Failed to start microphone:', error);
+      AudioManager.setMicrophoneActive(false);
+      return false;
+    }
+  }
+
+  private stop(): void {
+    if (!this.isRunning) return;
+    this.isRunning = false;
+    try {
+      this.recorder?.stop();
+    } catch (error) {
+      console.error('Failed to stop microphone:', error);
+    }
+    AudioManager.setMicrophoneActive(false);
+  }
+}
+
+const microphone = Microphone.getInstance();
+export default microphone;
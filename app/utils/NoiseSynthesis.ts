@@ -0,0 +1,112 @@
+import { makeSeamlessLoop, measureLoudness, REFERENCE_LOUDNESS } from './AudioDSP';
+
+/**
+ * Procedural noise synthesis used by the noise generators.
+ *
+ * Noise is rendered once per color into a buffer whose end is crossfaded
+ * into its start, so the buffer can loop on the audio thread with no seam.
+ */
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+export const NOISE_COLORS: NoiseColor[] = ['white', 'pink', 'brown'];
+
+export const NOISE_COLOR_LABELS: Record<NoiseColor, string> = {
+  white: 'White',
+  pink: 'Pink',
+  brown: 'Brown',
+};
+
+// Length of the rendered loop; long enough that repetition isn't noticeable
+export const NOISE_LOOP_SECONDS = 15;
+// Length of the crossfade that joins the end of the loop to its start
+const LOOP_CROSSFADE_SECONDS = 0.5;
+
+export function isNoiseColor(value: unknown): value is NoiseColor {
+  return typeof value === 'string' && (NOISE_COLORS as string[]).includes(value);
+}
+
+/**
+ * Fill `output` with raw (un-normalized) noise of the given color
+ */
+function renderNoise(color: NoiseColor, output: Float32Array): void {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let brown = 0;
+
+  for (let i = 0; i < output.length; i++) {
+    const white = Math.random() * 2 - 1;
+
+    switch (color) {
+      case 'pink': {
+        // Paul Kellet's refined pink noise filter (-3 dB/octave)
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.969 * b2 + white * 0.153852;
+        b3 = 0.8665 * b3 + white * 0.3104856;
+        b4 = 0.55 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.016898;
+        output[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+        b6 = white * 0.115926;
+        break;
+      }
+      case 'brown': {
+        // Leaky integrator (-6 dB/octave) that can't drift away from zero
+        brown = (brown + 0.02 * white) / 1.02;
+        output[i] = brown;
+        break;
+      }
+      default:
+        output[i] = white;
+    }
+  }
+}
+
+/**
+ * Remove DC offset and scale samples to the reference loudness, so every
+ * color sounds as loud as the others and as library sounds at the same volume
+ */
+function normalize(samples: Float32Array, sampleRate: number): void {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i];
+  }
+  const mean = sum / samples.length;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] -= mean;
+  }
+
+  const loudness = measureLoudness([samples], sampleRate);
+  if (!isFinite(loudness)) return;
+
+  const scale = Math.pow(10, (REFERENCE_LOUDNESS - loudness) / 20);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, samples[i] * scale));
+  }
+}
+
+/**
+ * Render a seamlessly looping buffer of noise of the given color
+ * @param color The noise color to render
+ * @param sampleRate Sample rate of the audio context
+ * @param seconds Length of the loop in seconds
+ */
+export function synthesizeNoise(
+  color: NoiseColor,
+  sampleRate: number,
+  seconds: number = NOISE_LOOP_SECONDS
+): Float32Array {
+  const crossfadeLength = Math.floor(sampleRate * LOOP_CROSSFADE_SECONDS);
+  const raw = new Float32Array(Math.floor(sampleRate * seconds) + crossfadeLength);
+
+  renderNoise(color, raw);
+  normalize(raw, sampleRate);
+  return makeSeamlessLoop(raw, crossfadeLength);
+}
+
+export default {
+  NOISE_COLORS,
+  NOISE_COLOR_LABELS,
+  NOISE_LOOP_SECONDS,
+  isNoiseColor,
+  synthesizeNoise,
+};
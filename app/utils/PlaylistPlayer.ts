@@ -0,0 +1,307 @@
+import { AudioBufferSourceNode, GainNode } from 'react-native-audio-api';
+import AudioEngine, { scheduleFade } from './AudioEngine';
+import SoundManager from './SoundManager';
+import { getLoudnessGain } from './AudioDSP';
+
+const FADE_DURATION = 1000; // 1 second fade when starting or stopping a track
+// Longest track that can play; each track is decoded whole before it starts,
+// about 20 MB a minute in stereo, so this keeps it under 100 MB
+export const MAX_TRACK_SECONDS = 4 * 60;
+
+/**
+ * What happens after the last track: stop, start the list over, or keep
+ * repeating the track that is playing
+ */
+export type PlaylistRepeat = 'off' | 'all' | 'one';
+
+export interface PlaylistTrack {
+  // Id of a sound saved on the device
+  id: string;
+  // Gain (0-1) for this track, on top of its loudness being matched to the others
+  gain: number;
+}
+
+export interface PlaylistSettings {
+  tracks: PlaylistTrack[];
+  shuffle: boolean;
+  repeat: PlaylistRepeat;
+}
+
+export const DEFAULT_PLAYLIST_SETTINGS: PlaylistSettings = {
+  tracks: [],
+  shuffle: false,
+  repeat: 'all',
+};
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * PlaylistPlayer plays the parent's lullabies one after another, as a
+ * single layer of the mixer.
+ *
+ * Only the track that is playing is decoded, so a long playlist costs no
+ * more memory than its longest song. Tracks that can't be played are
+ * skipped.
+ */
+class PlaylistPlayer {
+  private static instance: PlaylistPlayer;
+  private settings: PlaylistSettings = DEFAULT_PLAYLIST_SETTINGS;
+  // Track ids in the order they play, reshuffled each time round when shuffling
+  private order: string[] = [];
+  private position: number = 0;
+  private source: AudioBufferSourceNode | null = null;
+  private trackGain: GainNode | null = null;
+  private output: GainNode | null = null;
+  private isPlaying: boolean = false;
+  private volume: number = 1;
+  // Bumped on every start and stop so a track that finishes decoding late is dropped
+  private playId: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): PlaylistPlayer {
+    if (!PlaylistPlayer.instance) {
+      PlaylistPlayer.instance = new PlaylistPlayer();
+    }
+    return PlaylistPlayer.instance;
+  }
+
+  public async initialize(): Promise<boolean> {
+    if (this.output) return true;
+    if (!(await AudioEngine.initialize())) return false;
+
+    const context = AudioEngine.getContext()!;
+    this.output = context.createGain();
+    this.output.gain.value = this.volume;
+    this.output.connect(AudioEngine.getOutput()!);
+    return true;
+  }
+
+  public getSettings(): PlaylistSettings {
+    return { ...this.settings, tracks: this.settings.tracks.map((track) => ({ ...track })) };
+  }
+
+  /**
+   * Change the playlist. Applied live: the current track keeps playing
+   * unless it was taken out of the list.
+   */
+  public setSettings(settings: Partial<PlaylistSettings>): void {
+    const currentId = this.isPlaying ? this.order[this.position] : undefined;
+    const upcomingIds = this.order.slice(this.position + 1);
+    const previousIds = this.settings.tracks.map(({ id }) => id).join();
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      tracks: (settings.tracks ?? this.settings.tracks).map((track) => ({
+        ...track,
+        gain: Math.max(0, Math.min(1, track.gain)),
+      })),
+    };
+
+    if (this.source) {
+      this.source.loop = this.settings.repeat === 'one';
+    }
+    const current = this.settings.tracks.find((track) => track.id === currentId);
+    if (current && this.trackGain) {
+      this.trackGain.gain.value = this.getTrackGain(current);
+    }
+    this.reportLevel();
+    // Changing only a track's gain keeps the order, shuffled or not
+    const idsChanged = this.settings.tracks.map(({ id }) => id).join() !== previousIds;
+    if (!idsChanged && settings.shuffle === undefined) return;
+
+    if (current || !this.isPlaying) {
+      this.order = this.createOrder(current?.id);
+      this.position = 0;
+      return;
+    }
+    // The current track was taken out, so carry on with the one after it
+    const nextId = upcomingIds.find((id) => this.settings.tracks.some((track) => track.id === id));
+    this.order = this.createOrder(nextId);
+    this.position = 0;
+    this.stopTrack();
+    this.playTrack(++this.playId, 0);
+  }
+
+  /**
+   * Track ids in playing order, starting with `firstId` if given
+   */
+  private createOrder(firstId?: string): string[] {
+    const ids = this.settings.tracks.map((track) => track.id);
+    const first = firstId ? ids.indexOf(firstId) : -1;
+    if (first === -1) {
+      return this.settings.shuffle ? shuffled(ids) : ids;
+    }
+    if (this.settings.shuffle) {
+      return [ids[first], ...shuffled(ids.filter((_, i) => i !== first))];
+    }
+    return [...ids.slice(first), ...ids.slice(0, first)];
+  }
+
+  public async play(): Promise<boolean> {
+    if (this.isPlaying) return true;
+    // An empty playlist has nothing to play, which isn't a failure
+    if (this.settings.tracks.length === 0) return true;
+    if (!(await this.initialize())) return false;
+    await AudioEngine.resume();
+
+    this.isPlaying = true;
+    this.reportLevel();
+    this.order = this.createOrder();
+    this.position = 0;
+    return this.playTrack(++this.playId, 0);
+  }
+
+  /**
+   * Decode and start the track at the current position, moving on past
+   * tracks that can't be played
+   * @param skipped How many tracks in a row have failed, to stop once all have
+   */
+  private async playTrack(playId: number, skipped: number): Promise<boolean> {
+    const context = AudioEngine.getContext();
+    const trackId = this.order[this.position];
+    const track = this.settings.tracks.find(({ id }) => id === trackId);
+    const sound = SoundManager.getInstance()
+      .getLocalSounds()
+      .find(({ id }) => id === trackId);
+    if (!context || !this.output || !track || !sound?.uri) {
+      return this.skipTrack(playId, skipped);
+    }
+    // Sounds imported before the limit was lowered could be too long to hold in memory
+    if (sound.duration !== undefined && sound.duration > MAX_TRACK_SECONDS) {
+      return this.skipTrack(playId, skipped);
+    }
+
+    let buffer;
+    try {
+      buffer = await context.decodeAudioDataSource(sound.uri);
+    } catch (error) {
+      console.error(`Failed to load lullaby ${trackId}:`, error);
+      return this.skipTrack(playId, skipped);
+    }
+    if (playId !== this.playId) return false;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = this.settings.repeat === 'one';
+
+    const trackGain = context.createGain();
+    trackGain.gain.value = 0;
+    source.connect(trackGain);
+    trackGain.connect(this.output);
+
+    source.onended = () => {
+      trackGain.disconnect();
+      source.disconnect();
+      if (this.source === source) {
+        this.source = null;
+        this.trackGain = null;
+        this.nextTrack(playId);
+      }
+    };
+
+    source.start(context.currentTime);
+    scheduleFade(trackGain.gain, 'in', FADE_DURATION / 1000, this.getTrackGain(track));
+    this.source = source;
+    this.trackGain = trackGain;
+    return true;
+  }
+
+  /**
+   * The track's own gain on top of the gain that brings the song to the
+   * reference loudness
+   */
+  private getTrackGain(track: PlaylistTrack): number {
+    const sound = SoundManager.getInstance()
+      .getLocalSounds()
+      .find(({ id }) => id === track.id);
+    return track.gain * (sound ? getLoudnessGain(sound.loudness) : 1);
+  }
+
+  private skipTrack(playId: number, skipped: number): Promise<boolean> {
+    if (playId !== this.playId) return Promise.resolve(false);
+    if (skipped + 1 >= this.order.length || !this.advance()) {
+      this.isPlaying = false;
+      this.reportLevel();
+      return Promise.resolve(false);
+    }
+    return this.playTrack(playId, skipped + 1);
+  }
+
+  private nextTrack(playId: number): void {
+    if (playId !== this.playId) return;
+    if (!this.advance()) {
+      this.isPlaying = false;
+      this.reportLevel();
+      return;
+    }
+    this.playTrack(playId, 0);
+  }
+
+  /**
+   * Move to the next track, going round again when repeating the whole list
+   * @returns Whether there is a next track
+   */
+  private advance(): boolean {
+    this.position++;
+    if (this.position < this.order.length) return true;
+    if (this.settings.repeat === 'off') return false;
+    this.order = this.createOrder();
+    this.position = 0;
+    return this.order.length > 0;
+  }
+
+  private stopTrack(): void {
+    const context = AudioEngine.getContext();
+    if (context && this.source && this.trackGain) {
+      scheduleFade(this.trackGain.gain, 'out', FADE_DURATION / 1000, this.trackGain.gain.value);
+      this.source.stop(context.currentTime + FADE_DURATION / 1000);
+    }
+    this.source = null;
+    this.trackGain = null;
+  }
+
+  public async stop(): Promise<boolean> {
+    if (!this.isPlaying) return true;
+    this.isPlaying = false;
+    this.reportLevel();
+    this.playId++;
+    this.stopTrack();
+    return true;
+  }
+
+  public async setVolume(volume: number): Promise<void> {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.output) {
+      this.output.gain.value = this.volume;
+    }
+    this.reportLevel();
+  }
+
+  // Let the engine keep the whole mix under the cap, counting every track
+  // at the gain of the loudest so moving on to the next never goes over
+  private reportLevel() {
+    const loudest = Math.max(0, ...this.settings.tracks.map((track) => this.getTrackGain(track)));
+    AudioEngine.setSourceLevel(this, this.isPlaying ? this.volume * loudest : 0);
+  }
+
+  public isCurrentlyPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.stop();
+    this.output?.disconnect();
+    this.output = null;
+  }
+}
+
+const playlistPlayer = PlaylistPlayer.getInstance();
+export default playlistPlayer;
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { Animated, Easing } from 'react-native';
+import AudioEngine from './AudioEngine';
+
+export const MIN_RHYTHM_RATE = 0.5;
+export const MAX_RHYTHM_RATE = 1.5;
+
+/**
+ * The rhythmic "shush" mode: every playing sound pulses in level, like a
+ * parent shushing or rocking in time.
+ */
+export interface RhythmSettings {
+  enabled: boolean;
+  // Pulses per second
+  rate: number;
+  // How far the level dips between pulses, from 0 to 1
+  depth: number;
+}
+
+export const DEFAULT_RHYTHM_SETTINGS: RhythmSettings = {
+  enabled: false,
+  rate: 1,
+  depth: 0.6,
+};
+
+type RhythmListener = (settings: RhythmSettings) => void;
+
+/**
+ * RhythmClock is the single source of truth for the shush rhythm. It drives
+ * the audio engine's modulation stage and lets animations read the same
+ * clock, so anything on screen can breathe in time with the sound.
+ *
+ * The phase is read from the audio clock, so visuals stay locked to what is
+ * heard rather than drifting with the frame rate.
+ */
+class RhythmClock {
+  private static instance: RhythmClock;
+  private settings: RhythmSettings = { ...DEFAULT_RHYTHM_SETTINGS };
+  private listeners: Set<RhythmListener> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): RhythmClock {
+    if (!RhythmClock.instance) {
+      RhythmClock.instance = new RhythmClock();
+    }
+    return RhythmClock.instance;
+  }
+
+  /**
+   * Turn the rhythm on or off or change its rate or depth. Applied live.
+   */
+  public setSettings(settings: Partial<RhythmSettings>): void {
+    const rate = settings.rate ?? this.settings.rate;
+    const depth = settings.depth ?? this.settings.depth;
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      rate: Math.max(MIN_RHYTHM_RATE, Math.min(MAX_RHYTHM_RATE, rate)),
+      depth: Math.max(0, Math.min(1, depth)),
+    };
+
+    AudioEngine.setModulation({
+      rate: this.settings.rate,
+      depth: this.settings.enabled ? this.settings.depth : 0,
+    });
+    this.listeners.forEach((listener) => listener(this.getSettings()));
+  }
+
+  public getSettings(): RhythmSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Position in the current pulse, from 0 up to 1. The sound is loudest at 0.25.
+   */
+  public getPhase(): number {
+    return AudioEngine.getModulationPhase();
+  }
+
+  /**
+   * Current level multiplier the rhythm applies to the sound, from 1 - depth
+   * up to 1. Always 1 while the rhythm is off.
+   */
+  public getLevel(): number {
+    if (!this.settings.enabled) return 1;
+    const { depth } = this.settings;
+    return 1 - depth / 2 + (depth / 2) * Math.sin(2 * Math.PI * this.getPhase());
+  }
+
+  /**
+   * Be told whenever the rhythm is turned on or off or changes rate or depth
+   * @returns A function that removes the listener
+   */
+  public subscribe(listener: RhythmListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+const rhythmClock = RhythmClock.getInstance();
+export default rhythmClock;
+
+/**
+ * Animated value that runs from 0 to 1 once per rhythm pulse, in time with
+ * the sound, for animations that want to move with the shush. Each cycle is
+ * re-synced to the audio clock so it never drifts.
+ *
+ * @returns The value, or null while the rhythm is off
+ */
+export function useRhythmValue(): Animated.Value | null {
+  const [settings, setSettings] = useState(rhythmClock.getSettings());
+  const value = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => rhythmClock.subscribe(setSettings), []);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+    let running = true;
+
+    const runCycle = () => {
+      if (!running) return;
+      const phase = rhythmClock.getPhase();
+      value.setValue(phase);
+      Animated.timing(value, {
+        toValue: 1,
+        duration: ((1 - phase) / settings.rate) * 1000,
+        easing: Easing.linear,
+        useNativeDriver: true,
+      }).start(({ finished }) => {
+        if (finished) runCycle();
+      });
+    };
+
+    runCycle();
+    return () => {
+      running = false;
+      value.stopAnimation();
+    };
+  }, [settings.enabled, settings.rate, value]);
+
+  return settings.enabled ? value : null;
+}
@@ -0,0 +1,239 @@
+import { Asset } from 'expo-asset';
+import { AudioBuffer, AudioBufferSourceNode, GainNode } from 'react-native-audio-api';
+import AudioEngine, { scheduleFade } from './AudioEngine';
+import { extractSeamlessLoop, getLoudnessGain } from './AudioDSP';
+import { SoundConfig } from './SoundManager';
+
+const FADE_DURATION = 1000; // 1 second fade when starting or stopping
+const DEFAULT_LOOP_CROSSFADE = 0.25; // seconds, when sound.json doesn't set one
+// Longest sound that can play as a layer; the whole recording is held in
+// memory while it plays, about 20 MB a minute in stereo
+export const MAX_LAYER_SECONDS = 2 * 60;
+
+/**
+ * A decoded sound: the whole recording for playing through once, and what
+ * repeats when looping. For sounds with loop points that is the section
+ * between them with the crossfade baked in; otherwise it is the recording
+ * itself, not a copy.
+ */
+interface SampleBuffers {
+  full: AudioBuffer;
+  loop: AudioBuffer;
+}
+
+/**
+ * SamplePlayer plays a sound from the library, looping between the loop
+ * points declared in its sound.json, or over the whole recording if it has
+ * none.
+ *
+ * Declared loops are prepared when the sound is decoded: the audio after the
+ * loop end is crossfaded into the loop start with an equal-power curve.
+ * The audio thread then repeats that buffer natively, sample-accurately and
+ * with no timers or bridge calls for the whole night.
+ */
+export default class SamplePlayer {
+  // Decoded audio is shared by every player of the same sound, and only
+  // kept while one of them is playing
+  private static buffers: Record<string, SampleBuffers> = {};
+  private sound: SoundConfig;
+  private source: AudioBufferSourceNode | null = null;
+  private sourceIsLoop: boolean = false;
+  private fadeGain: GainNode | null = null;
+  private output: GainNode | null = null;
+  private isPlaying: boolean = false;
+  // Changes whenever playback starts or stops, so a start still loading can tell it was cancelled
+  private playId: number = 0;
+  private loop: boolean = true;
+  private volume: number;
+  // Brings the sound to the reference loudness, on top of the volume
+  private loudnessGain: number;
+
+  constructor(sound: SoundConfig) {
+    this.sound = sound;
+    this.volume = sound.defaultGain;
+    this.loudnessGain = getLoudnessGain(sound.loudness);
+  }
+
+  public async initialize(): Promise<boolean> {
+    if (this.output) return true;
+    if (!(await AudioEngine.initialize())) return false;
+
+    const context = AudioEngine.getContext()!;
+    this.output = context.createGain();
+    this.output.gain.value = this.volume * this.loudnessGain;
+    this.output.connect(AudioEngine.getOutput()!);
+    return true;
+  }
+
+  /**
+   * Decode the sound's audio file and prepare its loop, or return them from the cache
+   */
+  private async loadBuffers(): Promise<SampleBuffers | null> {
+    const cached = SamplePlayer.buffers[this.sound.id];
+    if (cached) return cached;
+
+    const context = AudioEngine.getContext();
+    if (!context) return null;
+    try {
+      const full = await context.decodeAudioDataSource(await this.resolveUri());
+      // Sounds imported before layers had a length limit can still be too long
+      if (full.duration > MAX_LAYER_SECONDS) {
+        console.warn(`Sound ${this.sound.id} is too long to play as a layer`);
+        return null;
+      }
+      const buffers = {
+        full,
+        loop: this.sound.loopPoints ? this.createLoopBuffer(full, this.sound.loopPoints) : full,
+      };
+      SamplePlayer.buffers[this.sound.id] = buffers;
+      return buffers;
+    } catch (error) {
+      console.error(`Failed to load sound ${this.sound.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Where the sound's audio file is: on the device already for recorded and
+   * imported sounds, otherwise the bundled asset, downloaded first if need be
+   */
+  private async resolveUri(): Promise<string> {
+    if (this.sound.uri) return this.sound.uri;
+    const asset = Asset.fromModule(this.sound.asset);
+    await asset.downloadAsync();
+    return asset.localUri ?? asset.uri;
+  }
+
+  /**
+   * Cut the declared loop out of the recording with its crossfade baked in
+   */
+  private createLoopBuffer(
+    full: AudioBuffer,
+    loopPoints: NonNullable<SoundConfig['loopPoints']>
+  ): AudioBuffer {
+    const context = AudioEngine.getContext()!;
+    const { sampleRate } = full;
+    const startSample = Math.round(loopPoints.start * sampleRate);
+    const endSample = Math.round((loopPoints.end ?? full.duration) * sampleRate);
+    const crossfadeLength = Math.round(
+      (loopPoints.crossfade ?? DEFAULT_LOOP_CROSSFADE) * sampleRate
+    );
+
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < full.numberOfChannels; channel++) {
+      channels.push(
+        extractSeamlessLoop(full.getChannelData(channel), startSample, endSample, crossfadeLength)
+      );
+    }
+
+    const loop = context.createBuffer(channels.length, channels[0].length, sampleRate);
+    channels.forEach((samples, channel) => loop.copyToChannel(samples, channel));
+    return loop;
+  }
+
+  public async play(): Promise<boolean> {
+    if (this.isPlaying) return true;
+    // Claimed before anything is awaited, so a stop() during the decode can cancel it
+    this.isPlaying = true;
+    const playId = ++this.playId;
+    const buffers = (await this.initialize()) ? await this.loadBuffers() : null;
+    const context = AudioEngine.getContext();
+    if (playId !== this.playId) {
+      // Stopped while decoding, so nothing is holding on to the audio
+      if (!this.isPlaying) {
+        delete SamplePlayer.buffers[this.sound.id];
+      }
+      return false;
+    }
+    if (!buffers || !context || !this.output) {
+      this.isPlaying = false;
+      return false;
+    }
+    await AudioEngine.resume();
+    if (playId !== this.playId) return false;
+
+    const source = context.createBufferSource();
+    source.buffer = this.loop ? buffers.loop : buffers.full;
+    source.loop = this.loop;
+
+    const fadeGain = context.createGain();
+    fadeGain.gain.value = 0;
+    source.connect(fadeGain);
+    fadeGain.connect(this.output);
+
+    source.onended = () => {
+      fadeGain.disconnect();
+      source.disconnect();
+      if (this.source === source) {
+        this.source = null;
+        this.fadeGain = null;
+        this.isPlaying = false;
+        this.reportLevel();
+      }
+      if (!this.isPlaying) {
+        delete SamplePlayer.buffers[this.sound.id];
+      }
+    };
+
+    source.start(context.currentTime);
+    scheduleFade(fadeGain.gain, 'in', FADE_DURATION / 1000);
+
+    this.source = source;
+    this.sourceIsLoop = this.loop;
+    this.fadeGain = fadeGain;
+    this.reportLevel();
+    return true;
+  }
+
+  public async stop(): Promise<boolean> {
+    if (!this.isPlaying) return true;
+    this.isPlaying = false;
+    this.playId++;
+    this.reportLevel();
+
+    const context = AudioEngine.getContext();
+    if (context && this.source && this.fadeGain) {
+      scheduleFade(this.fadeGain.gain, 'out', FADE_DURATION / 1000);
+      this.source.stop(context.currentTime + FADE_DURATION / 1000);
+    }
+    this.source = null;
+    this.fadeGain = null;
+    return true;
+  }
+
+  public async setVolume(volume: number): Promise<void> {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.output) {
+      this.output.gain.value = this.volume * this.loudnessGain;
+    }
+    this.reportLevel();
+  }
+
+  // Let the engine keep the whole mix under the cap
+  private reportLevel() {
+    AudioEngine.setSourceLevel(this, this.isPlaying ? this.volume * this.loudnessGain : 0);
+  }
+
+  /**
+   * Choose between looping forever and playing through once.
+   * Turning looping off lets the current pass finish; turning it on takes
+   * effect the next time the sound starts.
+   */
+  public setLoop(loop: boolean): void {
+    this.loop = loop;
+    if (this.source && this.sourceIsLoop) {
+      this.source.loop = loop;
+    }
+  }
+
+  public isCurrentlyPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.stop();
+    this.output?.disconnect();
+    this.output = null;
+    delete SamplePlayer.buffers[this.sound.id];
+  }
+}
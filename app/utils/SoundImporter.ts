@@ -0,0 +1,164 @@
+import { getDocumentAsync } from 'expo-document-picker';
+import { Directory, File, Paths } from 'expo-file-system/next';
+import AudioEngine from './AudioEngine';
+import AudioManager from './AudioManager';
+import { SoundConfig } from './SoundManager';
+import { measureLoudness } from './AudioDSP';
+import { MAX_TRACK_SECONDS } from './PlaylistPlayer';
+
+// Formats both iOS and Android can decode
+export const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'flac'];
+// Larger files take too long to decode and too much memory to hold at night
+export const MAX_IMPORT_MEGABYTES = 30;
+const MIN_IMPORT_SECONDS = 1;
+// Long enough for a lullaby; sounds over MAX_LAYER_SECONDS can only play in the playlist
+export const MAX_IMPORT_SECONDS = MAX_TRACK_SECONDS;
+
+// Level imported sounds start at in the mixer
+const IMPORT_GAIN = 0.7;
+export const IMPORTED_FOLDER = 'imported';
+
+/**
+ * A picked file that wasn't imported, and why, in words for the parent
+ */
+export interface ImportRejection {
+  name: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  imported: SoundConfig[];
+  rejected: ImportRejection[];
+}
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Turn a file name like "brahms_lullaby.mp3" into "brahms lullaby"
+ */
+function soundNameFromFile(name: string): string {
+  const dot = name.lastIndexOf('.');
+  const base = (dot > 0 ? name.slice(0, dot) : name).replace(/[_-]+/g, ' ').trim();
+  return base || 'Imported sound';
+}
+
+/**
+ * Check a copied file decodes to a usable length of sound, and measure its
+ * loudness and length
+ * @returns The loudness in LUFS and the length in seconds, or why the file can't be used
+ */
+async function checkAudio(uri: string): Promise<{ loudness: number; duration: number } | string> {
+  const context = (await AudioEngine.initialize()) ? AudioEngine.getContext() : null;
+  if (!context) return 'Audio could not be started on this device.';
+
+  let buffer;
+  try {
+    buffer = await context.decodeAudioDataSource(uri);
+  } catch (error) {
+    console.warn(`Failed to decode ${uri}:`, error);
+    return "The file couldn't be read. It may be damaged or not really an audio file.";
+  }
+  if (buffer.duration < MIN_IMPORT_SECONDS) {
+    return `The sound is shorter than ${MIN_IMPORT_SECONDS} second.`;
+  }
+  if (buffer.duration > MAX_IMPORT_SECONDS) {
+    const minutes = MAX_IMPORT_SECONDS / 60;
+    return `The sound is longer than ${minutes} minutes, the longest that fits in memory to play.`;
+  }
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+  const loudness = measureLoudness(channels, buffer.sampleRate);
+  if (!isFinite(loudness)) {
+    return 'The file contains only silence.';
+  }
+  return { loudness, duration: buffer.duration };
+}
+
+/**
+ * Copy one picked file into the app's storage and check it
+ * @returns The new sound, or why the file was rejected
+ */
+async function importFile(
+  folder: Directory,
+  picked: { name: string; uri: string; size?: number },
+  index: number
+): Promise<SoundConfig | string> {
+  const extension = getExtension(picked.name);
+  if (!SUPPORTED_AUDIO_EXTENSIONS.includes(extension)) {
+    return `This type of file isn't supported. Use ${SUPPORTED_AUDIO_EXTENSIONS.join(', ')}.`;
+  }
+  if (picked.size !== undefined && picked.size > MAX_IMPORT_MEGABYTES * 1024 * 1024) {
+    return `The file is larger than ${MAX_IMPORT_MEGABYTES} MB.`;
+  }
+
+  const id = `imported-${Date.now()}-${index}`;
+  const file = new File(folder, `${id}.${extension}`);
+  try {
+    new File(picked.uri).copy(file);
+  } catch (error) {
+    console.error(`Failed to copy ${picked.name}:`, error);
+    return "The file couldn't be copied to this phone.";
+  }
+
+  const measured = await checkAudio(file.uri);
+  if (typeof measured === 'string') {
+    file.delete();
+    return measured;
+  }
+  return {
+    id,
+    name: soundNameFromFile(picked.name),
+    category: 'music',
+    folder: IMPORTED_FOLDER,
+    file: file.name,
+    uri: file.uri,
+    defaultGain: IMPORT_GAIN,
+    ...measured,
+  };
+}
+
+/**
+ * Let the parent pick audio files from the device and add them to the sound
+ * library. Each file is copied into the app's own storage, so it keeps
+ * working if the original is moved or deleted, and is decoded once to make
+ * sure it plays and to measure its loudness.
+ * @returns What was imported and what was rejected, or null if the parent cancelled
+ */
+export async function importAudioFiles(): Promise<ImportResult | null> {
+  const picked = await getDocumentAsync({
+    type: 'audio/*',
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+  if (picked.canceled) return null;
+
+  const folder = new Directory(Paths.document, IMPORTED_FOLDER);
+  if (!folder.exists) {
+    folder.create();
+  }
+
+  const result: ImportResult = { imported: [], rejected: [] };
+  for (const [index, asset] of picked.assets.entries()) {
+    const sound = await importFile(folder, asset, index);
+    if (typeof sound === 'string') {
+      result.rejected.push({ name: asset.name, reason: sound });
+      continue;
+    }
+    await AudioManager.addLocalSound(sound, false);
+    result.imported.push(sound);
+  }
+  return result;
+}
+
+export default {
+  SUPPORTED_AUDIO_EXTENSIONS,
+  MAX_IMPORT_MEGABYTES,
+  MAX_IMPORT_SECONDS,
+  IMPORTED_FOLDER,
+  importAudioFiles,
+};
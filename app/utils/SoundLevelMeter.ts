@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import Microphone from './Microphone';
+import { meanSquare } from './AudioDSP';
+import { CRIB_DISTANCE_METERS, MIN_VOLUME_CAP } from './AudioManager';
+
+/**
+ * Approximate sound levels from the microphone, for checking how loud the
+ * sound is at the crib.
+ *
+ * Phone microphones aren't calibrated, so readings are estimates in dB SPL,
+ * good to within a few decibels on most phones. They are worked out from
+ * each block of audio as it arrives and nothing else is kept.
+ */
+
+// Pediatric guidance: keep sleep sounds at or below about 50 dB at the crib
+export const SAFE_LEVEL_DB = 50;
+// Above this, the sound is too loud for a sleeping baby
+export const UNSAFE_LEVEL_DB = 60;
+
+// Added to the level in dB full scale to estimate dB SPL. Typical of phone
+// microphones with the system's input processing turned off.
+const MIC_CALIBRATION_OFFSET_DB = 110;
+// Quietest level reported, so silence doesn't read as minus infinity
+const LEVEL_FLOOR_DB = 20;
+// How quickly the live reading follows changes, from 0 (frozen) to 1 (raw)
+const LIVE_SMOOTHING = 0.3;
+// Rough distance from the phone's speaker to its own microphone
+const SPEAKER_TO_MIC_METERS = 0.1;
+// The sound must be at least this much louder than the room to be measured
+const MIN_SOUND_ABOVE_ROOM_DB = 3;
+
+export type LevelZone = 'safe' | 'caution' | 'unsafe';
+
+export function getLevelZone(levelDb: number): LevelZone {
+  if (levelDb <= SAFE_LEVEL_DB) return 'safe';
+  if (levelDb <= UNSAFE_LEVEL_DB) return 'caution';
+  return 'unsafe';
+}
+
+function powerToDb(power: number): number {
+  return Math.max(LEVEL_FLOOR_DB, 10 * Math.log10(power));
+}
+
+function dbToPower(levelDb: number): number {
+  return Math.pow(10, levelDb / 10);
+}
+
+/**
+ * Mean power of a block of samples, scaled so that powerToDb gives dB SPL
+ */
+function blockPower(samples: Float32Array): number {
+  return meanSquare(samples) * dbToPower(MIC_CALIBRATION_OFFSET_DB);
+}
+
+/**
+ * Listen for `seconds` and return the average level over that time
+ * @returns The level in dB, or null if the microphone isn't available
+ */
+export async function measureLevel(seconds: number): Promise<number | null> {
+  let total = 0;
+  let blocks = 0;
+  const stop = await Microphone.listen((samples) => {
+    total += blockPower(samples);
+    blocks++;
+  });
+  if (!stop) return null;
+
+  await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+  stop();
+  return blocks > 0 ? powerToDb(total / blocks) : null;
+}
+
+/**
+ * The result of measuring the room with the sound off and then on
+ */
+export interface CribEstimate {
+  // Level of the sound alone at the crib, in dB
+  soundDb: number;
+  // Suggested maximum volume for AudioManager that keeps the sound at SAFE_LEVEL_DB
+  suggestedCap: number;
+}
+
+/**
+ * Estimate how loud the sound will be at the crib and the volume cap that
+ * would make it safe.
+ *
+ * The phone can only measure its own speaker from close up, so the level
+ * at the crib is worked out from CRIB_DISTANCE_METERS. Rooms reflect some
+ * of the sound back, so the real level can be a little higher than this.
+ *
+ * The suggested cap is worked out for the loudest the sound can get, not
+ * just for the mix that was measured, so turning the volume up or adding
+ * layers later can't take it past the safe level.
+ *
+ * @param roomDb Level with the sound off
+ * @param withSoundDb Level with the sound playing, measured next to the phone
+ * @param currentCap Volume cap in place while measuring
+ * @param mixLevel How loud the mix was while measuring, as a share of the loudest under the cap
+ * @returns The estimate, or null if the sound couldn't be told apart from the room
+ */
+export function estimateAtCrib(
+  roomDb: number,
+  withSoundDb: number,
+  currentCap: number,
+  mixLevel: number = 1
+): CribEstimate | null {
+  if (withSoundDb - roomDb < MIN_SOUND_ABOVE_ROOM_DB || mixLevel <= 0) return null;
+
+  const soundAtPhoneDb = powerToDb(dbToPower(withSoundDb) - dbToPower(roomDb));
+  const soundDb = soundAtPhoneDb - 20 * Math.log10(CRIB_DISTANCE_METERS / SPEAKER_TO_MIC_METERS);
+  // The cap and mix level scale the sound's amplitude, so its level changes by
+  // 20 log10 of the ratio
+  const suggestedCap = currentCap * mixLevel * Math.pow(10, (SAFE_LEVEL_DB - soundDb) / 20);
+  return {
+    soundDb,
+    suggestedCap: Math.max(MIN_VOLUME_CAP, Math.min(1, suggestedCap)),
+  };
+}
+
+/**
+ * Live, smoothed sound level from the microphone while `active` is true
+ * @returns The level in dB, or null while inactive or without microphone access
+ */
+export function useSoundLevel(active: boolean): number | null {
+  const [level, setLevel] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      setLevel(null);
+      return;
+    }
+
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    let smoothed: number | null = null;
+
+    Microphone.listen((samples) => {
+      const power = blockPower(samples);
+      smoothed = smoothed === null ? power : smoothed + (power - smoothed) * LIVE_SMOOTHING;
+      setLevel(powerToDb(smoothed));
+    }).then((stopListening) => {
+      if (cancelled) {
+        stopListening?.();
+      } else {
+        stop = stopListening;
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [active]);
+
+  return level;
+}
+
+export default {
+  SAFE_LEVEL_DB,
+  UNSAFE_LEVEL_DB,
+  getLevelZone,
+  measureLevel,
+  estimateAtCrib,
+  useSoundLevel,
+};
@@ -0,0 +1,273 @@
+/// <reference types="expo/types" />
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Paths } from 'expo-file-system/next';
+
+export type SoundCategory =
+  | 'noise'
+  | 'nature'
+  | 'household'
+  | 'heartbeat'
+  | 'voice'
+  | 'music';
+
+export const SOUND_CATEGORIES: SoundCategory[] = [
+  'noise',
+  'nature',
+  'household',
+  'heartbeat',
+  'voice',
+  'music',
+];
+
+export interface SoundConfig {
+  id: string;
+  name: string;
+  description?: string;
+  category: SoundCategory;
+  folder: string;
+  // Name of the audio file inside the folder (informational)
+  file?: string;
+  // Section of the file that repeats, in seconds. `end` defaults to the end
+  // of the file; `crossfade` is how long the wrap-around is blended over.
+  loopPoints?: { start: number; end?: number; crossfade?: number };
+  // Gain (0-1) the sound starts at when added to a mix
+  defaultGain: number;
+  // Integrated loudness of the audio file in LUFS, so it can be played as
+  // loud as every other sound at the same volume
+  loudness: number;
+  // Length of the audio file in seconds, measured when it is imported
+  duration?: number;
+  thumbnail?: any;
+  // The bundled audio file, resolved when the sound is discovered
+  asset?: any;
+  // Audio saved on the device, for sounds the parent recorded or imported.
+  // Worked out from `folder` and `file` each launch, as the app's storage
+  // path can change.
+  uri?: string;
+}
+
+// Sounds the parent recorded or imported, saved as a list of their configs
+const LOCAL_SOUNDS_KEY = 'localSounds';
+
+/**
+ * Every sound folder's files, found by Metro when the app is bundled. A
+ * folder under app/sounds with a sound.json and an audio file is picked up on
+ * its own; nothing else needs editing to add one.
+ */
+const soundFiles = require.context(
+  '../sounds',
+  true,
+  /\/[^/]+\/(sound\.json|[^/]+\.(mp3|m4a|aac|wav)|thumbnail\.png)$/
+);
+
+/**
+ * What one sound folder provides, as found
+ */
+interface SoundFolder {
+  // The parsed sound.json, or undefined if the folder has none
+  config?: any;
+  // Each audio file in the folder by name
+  audio: Record<string, any>;
+  thumbnail?: any;
+}
+
+function findSoundFolders(): Map<string, SoundFolder> {
+  const folders = new Map<string, SoundFolder>();
+  for (const key of soundFiles.keys()) {
+    const [folder, file] = key.split('/').slice(-2);
+    const found: SoundFolder = folders.get(folder) ?? { audio: {} };
+    if (file === 'sound.json') {
+      found.config = soundFiles(key);
+    } else if (file === 'thumbnail.png') {
+      found.thumbnail = soundFiles(key);
+    } else {
+      found.audio[file] = soundFiles(key);
+    }
+    folders.set(folder, found);
+  }
+  return folders;
+}
+
+/**
+ * Check a parsed sound.json for problems
+ * @returns A list of human-readable problems, empty if the config is valid
+ */
+export function validateSoundConfig(config: any): string[] {
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object') {
+    return ['sound.json is empty or not an object'];
+  }
+  if (typeof config.id !== 'string' || !config.id) {
+    errors.push('"id" must be a non-empty string');
+  }
+  if (typeof config.name !== 'string' || !config.name) {
+    errors.push('"name" must be a non-empty string');
+  }
+  if (!SOUND_CATEGORIES.includes(config.category)) {
+    errors.push(`"category" must be one of ${SOUND_CATEGORIES.join(', ')}`);
+  }
+  if (
+    typeof config.defaultGain !== 'number' ||
+    config.defaultGain < 0 ||
+    config.defaultGain > 1
+  ) {
+    errors.push('"defaultGain" must be a number between 0 and 1');
+  }
+  if (typeof config.loudness !== 'number' || config.loudness > 0) {
+    errors.push('"loudness" must be the measured loudness in LUFS, 0 or less');
+  }
+  if (config.loopPoints !== undefined) {
+    const { start, end, crossfade } = config.loopPoints ?? {};
+    if (typeof start !== 'number' || start < 0) {
+      errors.push('"loopPoints.start" must be a number of seconds, 0 or more');
+    }
+    if (end !== undefined && (typeof end !== 'number' || end <= start)) {
+      errors.push('"loopPoints.end" must be a number of seconds after "loopPoints.start"');
+    }
+    if (crossfade !== undefined && (typeof crossfade !== 'number' || crossfade <= 0)) {
+      errors.push('"loopPoints.crossfade" must be a number of seconds greater than 0');
+    }
+  }
+  if (
+    config.duration !== undefined &&
+    (typeof config.duration !== 'number' || config.duration <= 0)
+  ) {
+    errors.push('"duration" must be a number of seconds greater than 0');
+  }
+  return errors;
+}
+
+class SoundManager {
+  private sounds: SoundConfig[] = [];
+  private localSounds: SoundConfig[] = [];
+  private static instance: SoundManager;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  public static getInstance(): SoundManager {
+    if (!SoundManager.instance) {
+      SoundManager.instance = new SoundManager();
+    }
+    return SoundManager.instance;
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      await this.scanForSounds();
+      await this.loadLocalSounds();
+    } catch (error) {
+      console.error('Failed to initialize SoundManager:', error);
+    }
+  }
+
+  /**
+   * Get every sound: the bundled library, then the sounds saved on this device
+   */
+  public getSounds(): SoundConfig[] {
+    return [...this.sounds, ...this.localSounds];
+  }
+
+  /**
+   * Get the sounds the parent recorded or imported
+   * @param folder Only return the sounds saved in this folder, e.g. 'recordings'
+   */
+  public getLocalSounds(folder?: string): SoundConfig[] {
+    return folder
+      ? this.localSounds.filter((sound) => sound.folder === folder)
+      : this.localSounds;
+  }
+
+  /**
+   * Add a sound whose audio file has been saved on the device and remember it
+   */
+  public async addLocalSound(sound: SoundConfig): Promise<void> {
+    this.localSounds = [...this.localSounds.filter(({ id }) => id !== sound.id), sound];
+    await this.saveLocalSounds();
+  }
+
+  /**
+   * Forget a sound saved on the device and delete its audio file
+   */
+  public async removeLocalSound(soundId: string): Promise<void> {
+    const sound = this.localSounds.find(({ id }) => id === soundId);
+    this.localSounds = this.localSounds.filter(({ id }) => id !== soundId);
+    await this.saveLocalSounds();
+    try {
+      if (sound?.uri) {
+        const file = new File(sound.uri);
+        if (file.exists) {
+          file.delete();
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to delete the audio file for ${soundId}:`, error);
+    }
+  }
+
+  private async loadLocalSounds(): Promise<void> {
+    const saved = await AsyncStorage.getItem(LOCAL_SOUNDS_KEY);
+    const sounds: SoundConfig[] = saved ? JSON.parse(saved) : [];
+    this.localSounds = [];
+
+    for (const sound of sounds) {
+      const errors = validateSoundConfig(sound);
+      if (errors.length > 0) {
+        console.warn(`Skipping saved sound ${sound.id}:\n  ${errors.join('\n  ')}`);
+        continue;
+      }
+      const file = new File(Paths.document, sound.folder, sound.file ?? '');
+      if (!sound.file || !file.exists) {
+        console.warn(`Skipping saved sound ${sound.id}: audio file is missing`);
+        continue;
+      }
+      this.localSounds.push({ ...sound, uri: file.uri });
+    }
+  }
+
+  private async saveLocalSounds(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(LOCAL_SOUNDS_KEY, JSON.stringify(this.localSounds));
+    } catch (error) {
+      console.error('Failed to save local sounds:', error);
+    }
+  }
+
+  public getSound(soundId: string): SoundConfig | undefined {
+    return this.getSounds().find((sound) => sound.id === soundId);
+  }
+
+  public getSoundsByCategory(category: SoundCategory): SoundConfig[] {
+    return this.getSounds().filter((sound) => sound.category === category);
+  }
+
+  /**
+   * Scan the sound folders, skipping any whose sound.json or audio file is invalid
+   */
+  private async scanForSounds(): Promise<void> {
+    this.sounds = [];
+
+    for (const [folder, { config, audio, thumbnail }] of findSoundFolders()) {
+      const errors = validateSoundConfig(config);
+      if (errors.length > 0) {
+        console.warn(`Skipping sound folder ${folder}:\n  ${errors.join('\n  ')}`);
+        continue;
+      }
+
+      // The file sound.json names, or the folder's only audio file
+      const asset = config.file ? audio[config.file] : Object.values(audio)[0];
+      if (!asset) {
+        console.warn(`Skipping sound folder ${folder}: no audio file`);
+        continue;
+      }
+
+      this.sounds.push({ ...config, folder, asset, thumbnail });
+    }
+
+    console.log(`Total sounds loaded: ${this.sounds.length}`);
+  }
+}
+
+export default SoundManager;
@@ -0,0 +1,288 @@
+import WhiteNoiseGenerator, { NoiseGenerator } from './WhiteNoiseGenerator';
+import HeartbeatGenerator from './HeartbeatGenerator';
+import SamplePlayer, { MAX_LAYER_SECONDS } from './SamplePlayer';
+import PlaylistPlayer from './PlaylistPlayer';
+import { SoundConfig } from './SoundManager';
+
+/**
+ * Anything the mixer can play as a layer. Generators and sample players
+ * already expose this shape, so they plug in without an adapter.
+ */
+export interface LayerSource {
+  play(): Promise<boolean>;
+  stop(): Promise<boolean>;
+  setVolume(volume: number): Promise<void>;
+  // Only sources that can come to an end need to support this
+  setLoop?(loop: boolean): void;
+  isCurrentlyPlaying(): boolean;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * A built-in generated layer, or the id of a sound from the sound library
+ */
+export type LayerId = string;
+
+export interface LayerState {
+  id: LayerId;
+  volume: number;
+  muted: boolean;
+  // Whether the layer repeats forever or plays through once.
+  // Generated layers are endless and always loop.
+  loop: boolean;
+}
+
+/**
+ * Layer state plus what the mixer UI needs to show it
+ */
+export interface LayerInfo extends LayerState {
+  label: string;
+  generated: boolean;
+}
+
+/**
+ * A named mix of layer settings the parent can save and recall
+ */
+export interface Soundscape {
+  name: string;
+  layers: LayerState[];
+}
+
+interface LayerDefinition {
+  label: string;
+  source: LayerSource;
+  generated: boolean;
+  defaults: Omit<LayerState, 'id'>;
+}
+
+/**
+ * Built-in layers, listed before library sounds. Rain, fan and shush are
+ * shaped noise and the heartbeat is synthesized, so they cost no bundle size.
+ * Lullabies plays the parent's playlist of imported songs.
+ */
+const GENERATED_LAYERS: Record<string, LayerDefinition> = {
+  noise: {
+    label: 'Noise',
+    source: WhiteNoiseGenerator,
+    generated: true,
+    defaults: { volume: 1, muted: false, loop: true },
+  },
+  rain: {
+    label: 'Rain',
+    source: new NoiseGenerator({
+      color: 'pink',
+      tone: -0.3,
+      filters: { highPassHz: 400, lowPassHz: 9000 },
+    }),
+    generated: true,
+    defaults: { volume: 0.6, muted: true, loop: true },
+  },
+  fan: {
+    label: 'Fan',
+    source: new NoiseGenerator({
+      color: 'brown',
+      tone: 0.4,
+      filters: { highPassHz: 60, lowPassHz: 1200 },
+    }),
+    generated: true,
+    defaults: { volume: 0.6, muted: true, loop: true },
+  },
+  shush: {
+    label: 'Shush',
+    source: new NoiseGenerator({
+      color: 'white',
+      filters: { highPassHz: 1800, lowPassHz: 6000 },
+    }),
+    generated: true,
+    defaults: { volume: 0.5, muted: true, loop: true },
+  },
+  heartbeat: {
+    label: 'Heartbeat',
+    source: HeartbeatGenerator,
+    generated: true,
+    defaults: { volume: 0.7, muted: true, loop: true },
+  },
+  lullabies: {
+    label: 'Lullabies',
+    source: PlaylistPlayer,
+    generated: true,
+    defaults: { volume: 0.7, muted: true, loop: true },
+  },
+};
+
+/**
+ * SoundscapeMixer plays any combination of layers at once, each with its
+ * own volume, mute and loop setting. Muted layers are stopped rather than
+ * silenced so they use no CPU.
+ */
+class SoundscapeMixer {
+  private static instance: SoundscapeMixer;
+  private definitions: Map<LayerId, LayerDefinition> = new Map();
+  private layers: Map<LayerId, LayerState> = new Map();
+  private isPlaying: boolean = false;
+
+  private constructor() {
+    for (const [id, definition] of Object.entries(GENERATED_LAYERS)) {
+      this.addLayer(id, definition);
+    }
+  }
+
+  public static getInstance(): SoundscapeMixer {
+    if (!SoundscapeMixer.instance) {
+      SoundscapeMixer.instance = new SoundscapeMixer();
+    }
+    return SoundscapeMixer.instance;
+  }
+
+  private addLayer(id: LayerId, definition: LayerDefinition) {
+    this.definitions.set(id, definition);
+    this.layers.set(id, { id, ...definition.defaults });
+  }
+
+  /**
+   * Make library sounds available as layers. Sounds that are already
+   * registered keep their current state, and sounds too long to hold in
+   * memory as a layer are left out.
+   */
+  public registerSounds(sounds: SoundConfig[]): void {
+    for (const sound of sounds) {
+      if (this.definitions.has(sound.id)) continue;
+      if (sound.duration !== undefined && sound.duration > MAX_LAYER_SECONDS) continue;
+      this.addLayer(sound.id, {
+        label: sound.name,
+        source: new SamplePlayer(sound),
+        generated: false,
+        defaults: { volume: sound.defaultGain, muted: true, loop: true },
+      });
+    }
+  }
+
+  /**
+   * Remove a library sound's layer, stopping it first, e.g. when a recording is deleted
+   */
+  public async unregisterSound(id: LayerId): Promise<void> {
+    const definition = this.definitions.get(id);
+    if (!definition || definition.generated) return;
+    this.definitions.delete(id);
+    this.layers.delete(id);
+    await definition.source.cleanup();
+  }
+
+  private getLayerIds(): LayerId[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  private shouldLayerPlay(layer: LayerState): boolean {
+    return this.isPlaying && !layer.muted && layer.volume > 0;
+  }
+
+  /**
+   * Start or stop a layer's source to match the mixer and layer state
+   */
+  private async syncLayer(id: LayerId): Promise<boolean> {
+    const layer = this.layers.get(id);
+    const definition = this.definitions.get(id);
+    if (!layer || !definition) return false;
+    const { source } = definition;
+
+    source.setLoop?.(layer.loop);
+    if (this.shouldLayerPlay(layer)) {
+      await source.setVolume(layer.volume);
+      if (!source.isCurrentlyPlaying()) {
+        return source.play();
+      }
+      return true;
+    }
+    if (source.isCurrentlyPlaying()) {
+      await source.stop();
+    }
+    return true;
+  }
+
+  private async syncAllLayers(): Promise<boolean[]> {
+    return Promise.all(this.getLayerIds().map((id) => this.syncLayer(id)));
+  }
+
+  /**
+   * Start every unmuted layer
+   * @returns true if at least one layer could start, or none needed to
+   */
+  public async play(): Promise<boolean> {
+    this.isPlaying = true;
+    const results = await this.syncAllLayers();
+    const anyAudible = Array.from(this.layers.values()).some((layer) =>
+      this.shouldLayerPlay(layer)
+    );
+    return !anyAudible || results.some(Boolean);
+  }
+
+  public async stop(): Promise<boolean> {
+    this.isPlaying = false;
+    await this.syncAllLayers();
+    return true;
+  }
+
+  public isCurrentlyPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  /**
+   * Get every layer in display order: generated layers, then library sounds
+   */
+  public getLayers(): LayerInfo[] {
+    return this.getLayerIds().map((id) => {
+      const { label, generated } = this.definitions.get(id)!;
+      return { ...this.layers.get(id)!, label, generated };
+    });
+  }
+
+  /**
+   * Get the persistable state of every layer
+   */
+  public getLayerStates(): LayerState[] {
+    return Array.from(this.layers.values()).map((layer) => ({ ...layer }));
+  }
+
+  /**
+   * Update one layer and apply it immediately if the mixer is playing
+   */
+  public async updateLayer(
+    id: LayerId,
+    changes: Partial<Omit<LayerState, 'id'>>
+  ): Promise<void> {
+    const layer = this.layers.get(id);
+    if (!layer) return;
+    this.layers.set(id, {
+      ...layer,
+      ...changes,
+      volume: Math.max(0, Math.min(1, changes.volume ?? layer.volume)),
+    });
+    await this.syncLayer(id);
+  }
+
+  /**
+   * Replace every layer's settings, e.g. when recalling a saved soundscape.
+   * Layers missing from `layers` go back to their defaults, and saved
+   * layers whose sound no longer exists are ignored.
+   */
+  public async setLayers(layers: LayerState[]): Promise<void> {
+    for (const [id, definition] of this.definitions) {
+      const saved = layers.find((layer) => layer.id === id);
+      this.layers.set(id, {
+        id,
+        ...definition.defaults,
+        ...(saved && { volume: saved.volume, muted: saved.muted, loop: saved.loop }),
+      });
+    }
+    await this.syncAllLayers();
+  }
+
+  public async cleanup(): Promise<void> {
+    await this.stop();
+    await Promise.all(
+      Array.from(this.definitions.values()).map(({ source }) => source.cleanup())
+    );
+  }
+}
+
+export default SoundscapeMixer.getInstance();
@@ -0,0 +1,179 @@
+import { GainNode } from 'react-native-audio-api';
+import AudioEngine from './AudioEngine';
+
+/**
+ * Soft notes an animation can play when the baby touches it, like a music
+ * box. Each note is a sine with a quiet octave above it for warmth, shaped
+ * by a short attack and a long exponential decay, so taps chime rather
+ * than beep.
+ */
+
+export interface ToneSettings {
+  enabled: boolean;
+  // Level of the notes (0-1) relative to the other sounds
+  volume: number;
+}
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  enabled: true,
+  volume: 0.4,
+};
+
+// C major pentatonic from C4 to C5: any notes played together sound pleasant
+export const PENTATONIC_NOTES = [
+  261.63, // C4
+  293.66, // D4
+  329.63, // E4
+  392.0, // G4
+  440.0, // A4
+  523.25, // C5
+];
+
+// Peak of a note at full volume; a sine this loud is about as loud as the
+// reference loudness the other sounds are matched to
+const NOTE_PEAK = 0.18;
+const OVERTONE_LEVEL = 0.15;
+const ATTACK_SECONDS = 0.01;
+const DECAY_SECONDS = 1.2;
+// Exponential ramps can't reach zero, so notes decay to this and then stop
+const DECAY_FLOOR = 0.0001;
+// Notes beyond this many at once are dropped, so a flurry of taps can't get loud
+const MAX_VOICES = 6;
+// The same note can't restart sooner than this, in seconds
+const RETRIGGER_SECONDS = 0.08;
+
+class ToneSynthesizer {
+  private static instance: ToneSynthesizer;
+  private settings: ToneSettings = DEFAULT_TONE_SETTINGS;
+  private output: GainNode | null = null;
+  private activeVoices: number = 0;
+  private lastPlayed: Map<number, number> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ToneSynthesizer {
+    if (!ToneSynthesizer.instance) {
+      ToneSynthesizer.instance = new ToneSynthesizer();
+    }
+    return ToneSynthesizer.instance;
+  }
+
+  private async initialize(): Promise<boolean> {
+    if (this.output) return true;
+    if (!(await AudioEngine.initialize())) return false;
+
+    const context = AudioEngine.getContext()!;
+    this.output = context.createGain();
+    this.output.gain.value = this.settings.volume;
+    this.output.connect(AudioEngine.getOutput()!);
+    return true;
+  }
+
+  public getSettings(): ToneSettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<ToneSettings>): void {
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      volume: Math.max(0, Math.min(1, settings.volume ?? this.settings.volume)),
+    };
+    if (this.output) {
+      this.output.gain.value = this.settings.volume;
+    }
+    this.reportLevel();
+  }
+
+  // Let the engine keep the whole mix under the cap, counting every note
+  // that is sounding at its loudest
+  private reportLevel() {
+    const level = this.activeVoices * NOTE_PEAK * (1 + OVERTONE_LEVEL) * this.settings.volume;
+    AudioEngine.setSourceLevel(this, level);
+  }
+
+  /**
+   * Play one note, unless interaction sounds are off
+   * @param frequency Pitch in Hz, usually one of PENTATONIC_NOTES
+   * @param strength How hard the note is struck (0-1), e.g. from a collision's speed
+   */
+  public async playNote(frequency: number, strength: number = 1): Promise<void> {
+    const peak = NOTE_PEAK * Math.max(0, Math.min(1, strength));
+    if (!this.settings.enabled || this.settings.volume === 0 || peak === 0) return;
+    if (this.activeVoices >= MAX_VOICES) return;
+    // Reserved before anything is awaited, so taps arriving meanwhile count it
+    this.activeVoices++;
+    let started = false;
+    try {
+      started = await this.startNote(frequency, peak);
+    } finally {
+      if (!started) {
+        this.releaseVoice();
+      }
+    }
+  }
+
+  private releaseVoice() {
+    this.activeVoices = Math.max(0, this.activeVoices - 1);
+    this.reportLevel();
+  }
+
+  /**
+   * Sound a note on the voice reserved for it
+   * @returns Whether the note started; if not, the voice is still reserved
+   */
+  private async startNote(frequency: number, peak: number): Promise<boolean> {
+    if (!(await this.initialize())) return false;
+    const context = AudioEngine.getContext();
+    if (!context || !this.output) return false;
+    await AudioEngine.resume();
+    const now = context.currentTime;
+    if (now - (this.lastPlayed.get(frequency) ?? -Infinity) < RETRIGGER_SECONDS) return false;
+    this.lastPlayed.set(frequency, now);
+
+    const end = now + ATTACK_SECONDS + DECAY_SECONDS;
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, now);
+    envelope.gain.linearRampToValueAtTime(peak, now + ATTACK_SECONDS);
+    envelope.gain.exponentialRampToValueAtTime(DECAY_FLOOR, end);
+    envelope.connect(this.output);
+
+    const overtoneGain = context.createGain();
+    overtoneGain.gain.value = OVERTONE_LEVEL;
+    overtoneGain.connect(envelope);
+
+    const fundamental = context.createOscillator();
+    fundamental.type = 'sine';
+    fundamental.frequency.value = frequency;
+    fundamental.connect(envelope);
+
+    const overtone = context.createOscillator();
+    overtone.type = 'sine';
+    overtone.frequency.value = frequency * 2;
+    overtone.connect(overtoneGain);
+
+    fundamental.onended = () => {
+      fundamental.disconnect();
+      overtone.disconnect();
+      overtoneGain.disconnect();
+      envelope.disconnect();
+      this.releaseVoice();
+    };
+    this.reportLevel();
+    fundamental.start(now);
+    overtone.start(now);
+    fundamental.stop(end);
+    overtone.stop(end);
+    return true;
+  }
+
+  public async cleanup(): Promise<void> {
+    this.output?.disconnect();
+    this.output = null;
+    this.activeVoices = 0;
+    this.reportLevel();
+  }
+}
+
+const toneSynthesizer = ToneSynthesizer.getInstance();
+export default toneSynthesizer;
@@ -0,0 +1,152 @@
+import { Directory, File, Paths } from 'expo-file-system/next';
+import AudioManager from './AudioManager';
+import Microphone from './Microphone';
+import { SoundConfig } from './SoundManager';
+import {
+  chooseLoopPoints,
+  encodeWav,
+  measureLoudness,
+  normalizeLoudness,
+  trimSilence,
+} from './AudioDSP';
+
+export const MAX_RECORDING_SECONDS = 30;
+// Shorter clips repeat too often to sound soothing
+export const MIN_CLIP_SECONDS = 2;
+
+// Average level recordings are brought to, in dB full scale, so a quiet hum
+// and a close-up shush come out about as loud as each other
+const TARGET_LEVEL_DB = -20;
+// Level new recordings start at in the mixer
+const RECORDING_GAIN = 0.7;
+export const RECORDINGS_FOLDER = 'recordings';
+
+/**
+ * A recording that has been trimmed, leveled and given loop points, ready to save
+ */
+export interface VoiceClip {
+  samples: Float32Array;
+  sampleRate: number;
+  loopPoints: { start: number; end: number; crossfade: number };
+}
+
+/**
+ * VoiceRecorder captures a short clip of the parent shushing, humming or
+ * singing and turns it into a looping sound for the mixer.
+ *
+ * The clip is held in memory until it is saved or thrown away. Saved clips
+ * are written to the app's own storage on this device and never leave it.
+ */
+class VoiceRecorder {
+  private static instance: VoiceRecorder;
+  private blocks: Float32Array[] = [];
+  private sampleRate: number = 0;
+  private recordedSeconds: number = 0;
+  private stopListening: (() => void) | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): VoiceRecorder {
+    if (!VoiceRecorder.instance) {
+      VoiceRecorder.instance = new VoiceRecorder();
+    }
+    return VoiceRecorder.instance;
+  }
+
+  /**
+   * Start recording. Nothing after MAX_RECORDING_SECONDS is kept.
+   * @param onProgress Called with the seconds recorded so far
+   * @param onLimitReached Called once the limit is reached; call stop() to get the clip
+   * @returns Whether recording started
+   */
+  public async start(
+    onProgress?: (seconds: number) => void,
+    onLimitReached?: () => void
+  ): Promise<boolean> {
+    if (this.stopListening) return true;
+    this.blocks = [];
+    this.recordedSeconds = 0;
+
+    this.stopListening = await Microphone.listen((samples, sampleRate) => {
+      if (this.recordedSeconds >= MAX_RECORDING_SECONDS) return;
+      // Blocks are only lent to listeners, so keep a copy
+      this.blocks.push(samples.slice());
+      this.sampleRate = sampleRate;
+      this.recordedSeconds += samples.length / sampleRate;
+      onProgress?.(this.recordedSeconds);
+      if (this.recordedSeconds >= MAX_RECORDING_SECONDS) {
+        onLimitReached?.();
+      }
+    });
+    return this.stopListening !== null;
+  }
+
+  /**
+   * Stop recording and prepare the clip
+   * @returns The clip, or null if there wasn't enough sound in it
+   */
+  public stop(): VoiceClip | null {
+    this.stopListening?.();
+    this.stopListening = null;
+
+    const length = this.blocks.reduce((total, block) => total + block.length, 0);
+    const recording = new Float32Array(length);
+    let offset = 0;
+    for (const block of this.blocks) {
+      recording.set(block, offset);
+      offset += block.length;
+    }
+    this.blocks = [];
+    if (length === 0) return null;
+
+    const trimmed = trimSilence(recording, this.sampleRate);
+    if (trimmed.length < MIN_CLIP_SECONDS * this.sampleRate) return null;
+
+    const samples = normalizeLoudness(trimmed, TARGET_LEVEL_DB);
+    return {
+      samples,
+      sampleRate: this.sampleRate,
+      loopPoints: chooseLoopPoints(samples, this.sampleRate),
+    };
+  }
+
+  public isRecording(): boolean {
+    return this.stopListening !== null;
+  }
+
+  /**
+   * Save a clip on the device and add it to the mixer
+   * @returns The new sound, or null if it couldn't be saved
+   */
+  public async save(clip: VoiceClip, name: string): Promise<SoundConfig | null> {
+    const id = `recording-${Date.now()}`;
+    try {
+      const folder = new Directory(Paths.document, RECORDINGS_FOLDER);
+      if (!folder.exists) {
+        folder.create();
+      }
+      const file = new File(folder, `${id}.wav`);
+      file.write(encodeWav(clip.samples, clip.sampleRate));
+
+      const sound: SoundConfig = {
+        id,
+        name: name.trim() || 'My voice',
+        category: 'voice',
+        folder: RECORDINGS_FOLDER,
+        file: `${id}.wav`,
+        uri: file.uri,
+        loopPoints: clip.loopPoints,
+        defaultGain: RECORDING_GAIN,
+        loudness: measureLoudness([clip.samples], clip.sampleRate),
+      };
+      await AudioManager.addLocalSound(sound);
+      return sound;
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+      return null;
+    }
+  }
+}
+
+const voiceRecorder = VoiceRecorder.getInstance();
+export default voiceRecorder;
@@ -1,18 +1,87 @@
-import { Audio, InterruptionModeIOS, InterruptionModeAndroid } from 'expo-av';
+import {
+  AudioBuffer,
+  AudioBufferSourceNode,
+  AudioParam,
+  BiquadFilterNode,
+  GainNode,
+} from 'react-native-audio-api';
+import AudioEngine, { scheduleFade } from './AudioEngine';
+import { NoiseColor, synthesizeNoise } from './NoiseSynthesis';
 
-const FADE_DURATION = 2000; // 2 seconds for crossfade
+const FADE_DURATION = 2000; // 2 seconds for crossfading between colors
+const STOP_FADE_DURATION = 1000; // 1 second fade when starting or stopping
 
+// The tone tilt pivots around this frequency: lows go up as highs go down
+const TILT_PIVOT_HZ = 800;
+// Shelf gain at either end of the tone range, in dB
+const MAX_TILT_DB = 12;
+// Cutoffs used when a filter is switched off, outside the audible range
+const LOW_PASS_OPEN_HZ = 20000;
+const HIGH_PASS_OPEN_HZ = 10;
+// Time constant for gliding filter changes so slider moves don't click
+const FILTER_GLIDE_SECONDS = 0.05;
+
+/**
+ * Optional cutoffs applied on top of the tone tilt. `null` means the filter
+ * is off.
+ */
+export interface NoiseFilterSettings {
+  lowPassHz: number | null;
+  highPassHz: number | null;
+}
+
+/**
+ * Starting sound of a generator: its color, tone and cutoffs
+ */
+export interface NoisePreset {
+  color: NoiseColor;
+  tone?: number;
+  filters?: Partial<NoiseFilterSettings>;
+}
+
+/**
+ * A looping noise buffer together with the gain used to fade it in and out
+ */
+interface NoiseVoice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * WhiteNoiseGenerator synthesizes white, pink or brown noise on the device
+ * and loops it on the audio thread, so there is no file and no loop seam.
+ *
+ * The shared instance is the main noise layer. Other noise-based layers
+ * (rain, fan, shush) are separate instances created from a preset.
+ */
 class WhiteNoiseGenerator {
   private static instance: WhiteNoiseGenerator;
-  private sound1: Audio.Sound | null = null;
-  private sound2: Audio.Sound | null = null;
-  private activeSound: 'sound1' | 'sound2' = 'sound1';
+  // Buffers are shared by every generator; each color is rendered only once
+  private static buffers: Partial<Record<NoiseColor, AudioBuffer>> = {};
+  private voice: NoiseVoice | null = null;
+  private output: GainNode | null = null;
+  private filters: {
+    highPass: BiquadFilterNode;
+    lowPass: BiquadFilterNode;
+    lowShelf: BiquadFilterNode;
+    highShelf: BiquadFilterNode;
+  } | null = null;
+  private color: NoiseColor = 'white';
+  private tone: number = 0;
+  private filterSettings: NoiseFilterSettings = { lowPassHz: null, highPassHz: null };
   private isPlaying: boolean = false;
+  // Changes whenever playback starts or stops, so a start still loading can tell it was cancelled
+  private playId: number = 0;
   private isInitialized: boolean = false;
   private volume: number = 1.0;
-  private playbackInterval: NodeJS.Timeout | null = null;
 
-  private constructor() {}
+  constructor(preset?: NoisePreset) {
+    if (preset) {
+      this.color = preset.color;
+      this.tone = preset.tone ?? 0;
+      this.filterSettings = { ...this.filterSettings, ...preset.filters };
+    }
+  }
 
   public static getInstance(): WhiteNoiseGenerator {
     if (!WhiteNoiseGenerator.instance) {
@@ -24,15 +93,13 @@ class WhiteNoiseGenerator {
   public async initialize(): Promise<boolean> {
     if (this.isInitialized) return true;
     try {
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        staysActiveInBackground: true,
-        interruptionModeIOS: InterruptionModeIOS.DoNotMix,
-        playsInSilentModeIOS: true,
-        shouldDuckAndroid: true,
-        interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
-        playThroughEarpieceAndroid: false,
-      });
+      if (!(await AudioEngine.initialize())) return false;
+
+      const context = AudioEngine.getContext()!;
+      this.output = context.createGain();
+      this.output.gain.value = this.volume;
+      this.output.connect(AudioEngine.getOutput()!);
+      this.createFilterChain();
       this.isInitialized = true;
       return true;
     } catch (error) {
@@ -41,118 +108,208 @@ class WhiteNoiseGenerator {
     }
   }
 
-  private async createSoundInstance(): Promise<Audio.Sound | null> {
+  /**
+   * Build the shaping chain voices play into:
+   * high-pass -> low-pass -> low shelf -> high shelf -> output
+   */
+  private createFilterChain() {
+    const context = AudioEngine.getContext();
+    if (!context || !this.output) return;
+
+    const highPass = context.createBiquadFilter();
+    highPass.type = 'highpass';
+    const lowPass = context.createBiquadFilter();
+    lowPass.type = 'lowpass';
+    const lowShelf = context.createBiquadFilter();
+    lowShelf.type = 'lowshelf';
+    lowShelf.frequency.value = TILT_PIVOT_HZ;
+    const highShelf = context.createBiquadFilter();
+    highShelf.type = 'highshelf';
+    highShelf.frequency.value = TILT_PIVOT_HZ;
+
+    highPass.connect(lowPass);
+    lowPass.connect(lowShelf);
+    lowShelf.connect(highShelf);
+    highShelf.connect(this.output);
+
+    this.filters = { highPass, lowPass, lowShelf, highShelf };
+    this.applyFilters(true);
+  }
+
+  /**
+   * Push the current tone and cutoffs to the filter chain
+   * @param immediate Set values directly instead of gliding to them
+   */
+  private applyFilters(immediate: boolean = false) {
+    if (!this.filters) return;
+    const { highPass, lowPass, lowShelf, highShelf } = this.filters;
+
+    // Positive tone is deeper: boost below the pivot and cut above it
+    const tiltDb = this.tone * (MAX_TILT_DB / 2);
+    const targets: [AudioParam, number][] = [
+      [lowShelf.gain, tiltDb],
+      [highShelf.gain, -tiltDb],
+      [lowPass.frequency, this.filterSettings.lowPassHz ?? LOW_PASS_OPEN_HZ],
+      [highPass.frequency, this.filterSettings.highPassHz ?? HIGH_PASS_OPEN_HZ],
+    ];
+
+    const now = AudioEngine.getCurrentTime();
+    for (const [param, value] of targets) {
+      if (immediate) {
+        param.value = value;
+      } else {
+        param.setTargetAtTime(value, now, FILTER_GLIDE_SECONDS);
+      }
+    }
+  }
+
+  /**
+   * Get the looping buffer for a color, synthesizing it on first use
+   */
+  private getBuffer(color: NoiseColor): AudioBuffer | null {
+    const cached = WhiteNoiseGenerator.buffers[color];
+    if (cached) return cached;
+
+    const context = AudioEngine.getContext();
+    if (!context) return null;
     try {
-      const { sound } = await Audio.Sound.createAsync(
-        require('../../assets/audio/white-noise.mp3'),
-        { shouldPlay: false, isLooping: false } // Looping is handled manually
-      );
-      return sound;
+      const samples = synthesizeNoise(color, context.sampleRate);
+      const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+      buffer.copyToChannel(samples, 0);
+      WhiteNoiseGenerator.buffers[color] = buffer;
+      return buffer;
     } catch (error) {
-      console.error('Failed to create sound instance:', error);
+      console.error(`Failed to synthesize ${color} noise:`, error);
       return null;
     }
   }
 
-  public async loadSound(): Promise<boolean> {
-    if (!this.isInitialized) {
-      await this.initialize();
-    }
-    if (!this.sound1) {
-      this.sound1 = await this.createSoundInstance();
-    }
-    if (!this.sound2) {
-      this.sound2 = await this.createSoundInstance();
-    }
-    return !!(this.sound1 && this.sound2);
+  /**
+   * Start a new looping voice for a color, fading it in over `fadeMillis`
+   */
+  private startVoice(color: NoiseColor, fadeMillis: number): NoiseVoice | null {
+    const context = AudioEngine.getContext();
+    const buffer = this.getBuffer(color);
+    if (!context || !buffer || !this.output) return null;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    source.connect(gain);
+    gain.connect(this.filters?.highPass ?? this.output);
+
+    source.start();
+    scheduleFade(gain.gain, 'in', fadeMillis / 1000);
+    return { source, gain };
+  }
+
+  /**
+   * Fade a voice out over `fadeMillis` and release it once silent
+   */
+  private releaseVoice(voice: NoiseVoice, fadeMillis: number) {
+    const context = AudioEngine.getContext();
+    if (!context) return;
+    scheduleFade(voice.gain.gain, 'out', fadeMillis / 1000);
+    voice.source.stop(context.currentTime + fadeMillis / 1000);
+    voice.source.onended = () => {
+      voice.source.disconnect();
+      voice.gain.disconnect();
+    };
   }
 
   public async play(): Promise<boolean> {
-    if (!(await this.loadSound())) return false;
-
-    if (!this.isPlaying) {
-      this.isPlaying = true;
-      const sound = this.activeSound === 'sound1' ? this.sound1 : this.sound2;
-      await sound!.setVolumeAsync(this.volume);
-      await sound!.playAsync();
-      this.monitorPlayback();
+    if (this.isPlaying) return true;
+    // Claimed before anything is awaited, so a stop() meanwhile can cancel it
+    this.isPlaying = true;
+    const playId = ++this.playId;
+    const initialized = await this.initialize();
+    if (playId !== this.playId) return false;
+    if (!initialized) {
+      this.isPlaying = false;
+      return false;
+    }
+    await AudioEngine.resume();
+    if (playId !== this.playId) return false;
+
+    this.voice = this.startVoice(this.color, STOP_FADE_DURATION);
+    if (!this.voice) {
+      this.isPlaying = false;
+      return false;
     }
+    this.reportLevel();
     return true;
   }
 
   public async stop(): Promise<boolean> {
     if (!this.isPlaying) return true;
     this.isPlaying = false;
-    if (this.playbackInterval) {
-      clearInterval(this.playbackInterval);
-      this.playbackInterval = null;
+    this.playId++;
+    this.reportLevel();
+    if (this.voice) {
+      this.releaseVoice(this.voice, STOP_FADE_DURATION);
+      this.voice = null;
     }
-    await this.sound1?.stopAsync();
-    await this.sound2?.stopAsync();
     return true;
   }
 
-  private monitorPlayback() {
-    if (this.playbackInterval) {
-      clearInterval(this.playbackInterval);
-    }
-
-    this.playbackInterval = setInterval(async () => {
-      if (!this.isPlaying) return;
+  /**
+   * Change the noise color, crossfading to it if noise is playing
+   */
+  public async setColor(color: NoiseColor): Promise<void> {
+    if (color === this.color) return;
+    this.color = color;
 
-      const currentSound = this.activeSound === 'sound1' ? this.sound1 : this.sound2;
-      const status = await currentSound?.getStatusAsync();
-
-      if (status?.isLoaded && status.isPlaying) {
-        const duration = status.durationMillis ?? 0;
-        const position = status.positionMillis;
-
-        if (duration - position < FADE_DURATION) {
-          this.crossfade();
-        }
+    if (this.isPlaying && this.voice) {
+      const next = this.startVoice(color, FADE_DURATION);
+      if (next) {
+        this.releaseVoice(this.voice, FADE_DURATION);
+        this.voice = next;
       }
-    }, 1000);
+    }
   }
 
-  private async crossfade() {
-    const inactiveSound = this.activeSound === 'sound1' ? this.sound2 : this.sound1;
-    const activeSound = this.activeSound === 'sound1' ? this.sound1 : this.sound2;
-
-    // Switch active sound
-    this.activeSound = this.activeSound === 'sound1' ? 'sound2' : 'sound1';
+  public getColor(): NoiseColor {
+    return this.color;
+  }
 
-    await inactiveSound!.setPositionAsync(0);
-    await inactiveSound!.setVolumeAsync(0);
-    await inactiveSound!.playAsync();
+  /**
+   * Tilt the spectrum from bright (-1) through neutral (0) to deep (1)
+   */
+  public setTone(tone: number): void {
+    this.tone = Math.max(-1, Math.min(1, tone));
+    this.applyFilters();
+  }
 
-    // Fade in the new sound
-    this.fade(inactiveSound!, this.volume);
-    // Fade out the old sound
-    this.fade(activeSound!, 0, async () => {
-      await activeSound!.stopAsync();
-    });
+  public getTone(): number {
+    return this.tone;
   }
 
-  private async fade(sound: Audio.Sound, toVolume: number, onComplete?: () => void) {
-    const fromVolume = (await sound.getStatusAsync() as any)?.volume ?? 0;
-    const steps = 20;
-    const stepDuration = FADE_DURATION / steps;
+  /**
+   * Set or clear the low-pass and high-pass cutoffs
+   */
+  public setFilters(settings: Partial<NoiseFilterSettings>): void {
+    this.filterSettings = { ...this.filterSettings, ...settings };
+    this.applyFilters();
+  }
 
-    for (let i = 0; i < steps; i++) {
-      const newVolume = fromVolume + (toVolume - fromVolume) * (i / steps);
-      await sound.setVolumeAsync(newVolume);
-      await new Promise(resolve => setTimeout(resolve, stepDuration));
-    }
-    await sound.setVolumeAsync(toVolume);
-    onComplete?.();
+  public getFilters(): NoiseFilterSettings {
+    return { ...this.filterSettings };
   }
 
   public async setVolume(volume: number): Promise<void> {
     this.volume = Math.max(0, Math.min(1, volume));
-    if (this.isPlaying) {
-      const sound = this.activeSound === 'sound1' ? this.sound1 : this.sound2;
-      await sound!.setVolumeAsync(this.volume);
+    if (this.output) {
+      this.output.gain.value = this.volume;
     }
+    this.reportLevel();
+  }
+
+  // Let the engine keep the whole mix under the cap
+  private reportLevel() {
+    AudioEngine.setSourceLevel(this, this.isPlaying ? this.volume : 0);
   }
 
   public isCurrentlyPlaying(): boolean {
@@ -160,13 +317,17 @@ class WhiteNoiseGenerator {
   }
 
   public async cleanup(): Promise<void> {
-    this.stop();
-    await this.sound1?.unloadAsync();
-    await this.sound2?.unloadAsync();
-    this.sound1 = null;
-    this.sound2 = null;
+    await this.stop();
+    if (this.filters) {
+      Object.values(this.filters).forEach((filter) => filter.disconnect());
+      this.filters = null;
+    }
+    this.output?.disconnect();
+    this.output = null;
+    WhiteNoiseGenerator.buffers = {};
     this.isInitialized = false;
   }
 }
 
+export { WhiteNoiseGenerator as NoiseGenerator };
 export default WhiteNoiseGenerator.getInstance();
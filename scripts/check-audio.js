@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+/**
+ * Checks for the audio code that runs without a device: the sample-level
+ * helpers in app/utils are plain TypeScript, so they are compiled on the fly
+ * and run against synthesized sound and the recordings in fixtures/.
+ *
+ * The recordings are 8 kHz mono WAVs made with ffmpeg: crying.wav is a quiet
+ * fan with bursts of a harmonic, wavering cry from 3 seconds in, and
+ * steady-noise.wav is loud brown noise throughout.
+ *
+ * Run with `npm run check-audio`.
+ */
+
+const assert = require("assert");
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const utils = path.join(__dirname, "..", "app", "utils");
+const { getMixHeadroom, measureLoudness } = require(path.join(utils, "AudioDSP.ts"));
+const { synthesizeNoise } = require(path.join(utils, "NoiseSynthesis.ts"));
+const { synthesizeHeartbeat } = require(path.join(utils, "HeartbeatSynthesis.ts"));
+const {
+  default: CryDetector,
+  CRY_SENSITIVITY_OPTIONS,
+  getCryResponseVolumes,
+} = require(path.join(utils, "CryDetector.ts"));
+const fixtures = path.join(__dirname, "fixtures");
+
+const SAMPLE_RATE = 44100;
+// Length of the blocks the microphone delivers, in seconds
+const MICROPHONE_BLOCK_SECONDS = 0.1;
+
+const checks = [];
+const check = (name, run) => checks.push({ name, run });
+
+/**
+ * Mix sources the way the audio engine does: each at its own gain, then the
+ * headroom stage, the master volume and the safety cap
+ */
+function mix(sources, masterVolume, cap) {
+  const headroom = getMixHeadroom(sources.map(({ level }) => level));
+  const length = Math.min(...sources.map(({ samples }) => samples.length));
+  const output = new Float32Array(length);
+  for (const { samples, level } of sources) {
+    for (let i = 0; i < length; i++) {
+      output[i] += samples[i] * level;
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    output[i] *= headroom * masterVolume * cap;
+  }
+  return output;
+}
+
+function peak(samples) {
+  let highest = 0;
+  for (let i = 0; i < samples.length; i++) {
+    highest = Math.max(highest, Math.abs(samples[i]));
+  }
+  return highest;
+}
+
+/**
+ * Read a 16-bit PCM WAV, keeping only its first channel
+ */
+function readWav(name) {
+  const data = fs.readFileSync(path.join(fixtures, name));
+  let sampleRate = 0;
+  let channels = 1;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString("ascii", offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      channels = data.readUInt16LE(body + 2);
+      sampleRate = data.readUInt32LE(body + 4);
+    } else if (id === "data") {
+      const samples = new Float32Array(Math.floor(size / 2 / channels));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readInt16LE(body + i * 2 * channels) / 32768;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error(`${name} has no audio`);
+}
+
+/**
+ * Feed a recording to a detector in microphone-sized blocks
+ * @returns The time of every detection, in seconds
+ */
+function detectCrying(name, sensitivity) {
+  const { samples, sampleRate } = readWav(name);
+  const detector = new CryDetector(CRY_SENSITIVITY_OPTIONS[sensitivity]);
+  const blockLength = Math.round(sampleRate * MICROPHONE_BLOCK_SECONDS);
+  const detections = [];
+  for (let start = 0; start + blockLength <= samples.length; start += blockLength) {
+    if (detector.process(samples.subarray(start, start + blockLength), sampleRate)) {
+      detections.push((start + blockLength) / sampleRate);
+    }
+  }
+  return detections;
+}
+
+check("crying is detected once it has gone on long enough", () => {
+  for (const sensitivity of ["low", "medium", "high"]) {
+    const detections = detectCrying("crying.wav", sensitivity);
+    const { minDurationSeconds } = CRY_SENSITIVITY_OPTIONS[sensitivity];
+    assert.strictEqual(detections.length, 1, `${sensitivity}: ${detections.length} detections`);
+    // The crying starts 3 seconds in
+    assert.ok(detections[0] >= 3 + minDurationSeconds, `${sensitivity}: at ${detections[0]} s`);
+  }
+});
+
+check("steady noise is never taken for crying", () => {
+  for (const sensitivity of ["low", "medium", "high"]) {
+    assert.deepStrictEqual(detectCrying("steady-noise.wav", sensitivity), [], sensitivity);
+  }
+});
+
+check("coming up in volume for crying really gets louder", () => {
+  for (const normalVolume of [1, 0.8, 0.5, 0.1]) {
+    const { resting, responding } = getCryResponseVolumes(normalVolume);
+    const gainDb = 20 * Math.log10(responding / resting);
+    assert.ok(gainDb >= 2.5, `at volume ${normalVolume} the response is only ${gainDb} dB louder`);
+    assert.ok(responding <= 1, `at volume ${normalVolume} the response goes past full volume`);
+    assert.ok(resting <= normalVolume, `at volume ${normalVolume} the sound rests above it`);
+  }
+});
+
+check("a single layer at full volume is left alone", () => {
+  assert.strictEqual(getMixHeadroom([1]), 1);
+  assert.strictEqual(getMixHeadroom([0.6, 0.4]), 1);
+});
+
+check("every layer at full volume stays within the cap", () => {
+  const noise = synthesizeNoise("white", SAMPLE_RATE, 2);
+  const rain = synthesizeNoise("pink", SAMPLE_RATE, 2);
+  const fan = synthesizeNoise("brown", SAMPLE_RATE, 2);
+  const shush = synthesizeNoise("white", SAMPLE_RATE, 2);
+  const heartbeat = synthesizeHeartbeat(70, true, SAMPLE_RATE);
+  // Quiet library recordings are boosted by up to 6 dB to reach the reference loudness
+  const recording = synthesizeNoise("pink", SAMPLE_RATE, 2);
+  const sources = [
+    { samples: noise, level: 1 },
+    { samples: rain, level: 1 },
+    { samples: fan, level: 1 },
+    { samples: shush, level: 1 },
+    { samples: heartbeat, level: 1 },
+    { samples: recording, level: 2 },
+    { samples: recording.slice().reverse(), level: 2 },
+  ];
+
+  for (const cap of [1, 0.5, 0.2]) {
+    const output = mix(sources, 1, cap);
+    assert.ok(peak(output) <= cap + 1e-6, `peak ${peak(output)} is above the cap ${cap}`);
+  }
+});
+
+check("adding layers never makes the mix louder than one layer alone", () => {
+  const one = mix([{ samples: synthesizeNoise("pink", SAMPLE_RATE, 2), level: 1 }], 1, 1);
+  const many = mix(
+    ["white", "pink", "brown"].map((color) => ({
+      samples: synthesizeNoise(color, SAMPLE_RATE, 2),
+      level: 1,
+    })),
+    1,
+    1
+  );
+  const oneLoudness = measureLoudness([one], SAMPLE_RATE);
+  const manyLoudness = measureLoudness([many], SAMPLE_RATE);
+  assert.ok(manyLoudness <= oneLoudness, `${manyLoudness} LUFS is louder than ${oneLoudness} LUFS`);
+});
+
+let failed = 0;
+for (const { name, run } of checks) {
+  try {
+    run();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`not ok - ${name}\n  ${error.message}`);
+  }
+}
+process.exit(failed > 0 ? 1 : 0);